@@ -9,12 +9,12 @@
 import * as path from "node:path";
 import * as fs from "node:fs";
 import chalk from "chalk";
+import { loadStyles } from "./styles";
 
 const ROOT_DIR = path.join(import.meta.dirname, "..");
 const SRC_DIR = path.join(ROOT_DIR, "src");
 const DIST_DIR = path.join(ROOT_DIR, "dist");
 const ENTRY = path.join(SRC_DIR, "index.ts");
-const CSS_PATH = path.join(SRC_DIR, "styles.css");
 
 const MIT_LICENSE = `<!--
   blankmd - A single-file Markdown editor
@@ -83,8 +83,8 @@ async function build(args: string[]) {
 
 	const js = await jsOutput.text();
 
-	// 2. Read CSS separately for inlining into <style>
-	const css = await Bun.file(CSS_PATH).text();
+	// 2. Read CSS (with KaTeX and its fonts) separately for inlining into <style>
+	const css = await loadStyles();
 
 	// 3. Assemble single HTML file with MIT license header
 	const html = `<!DOCTYPE html>
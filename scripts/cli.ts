@@ -0,0 +1,364 @@
+#!/usr/bin/env bun
+/**
+ * blankmd CLI
+ * Opens a markdown file from disk in the editor and saves it back in place.
+ *
+ * Usage: blankmd <file.md> [--port 1999] [--no-open]
+ */
+
+import * as path from "node:path";
+import * as fs from "node:fs";
+import chalk from "chalk";
+import boxen from "boxen";
+import ora from "ora";
+import open from "better-opn";
+import { loadStyles } from "./styles";
+
+const DEFAULT_PORT = 1999;
+const MAX_PORT_ATTEMPTS = 10;
+const ROOT_DIR = path.join(import.meta.dirname, "..");
+const SRC_DIR = path.join(ROOT_DIR, "src");
+const ENTRY = path.join(SRC_DIR, "index.ts");
+const CONTENT_ROUTE = "/api/blankmd/content";
+const IMAGE_ROUTE = "/api/blankmd/image";
+const MAX_IMAGE_BYTES = 25 * 1024 * 1024;
+
+/** Image types accepted for upload, with the extension they are saved under */
+const IMAGE_EXTENSIONS: Record<string, string> = {
+	"image/png": ".png",
+	"image/jpeg": ".jpg",
+	"image/gif": ".gif",
+	"image/webp": ".webp",
+	"image/avif": ".avif",
+	"image/svg+xml": ".svg",
+};
+
+/** Extensions served from the markdown file's directory, so relative image paths load */
+const SERVED_IMAGE_EXTENSIONS = new Set([...Object.values(IMAGE_EXTENSIONS), ".jpeg", ".bmp", ".ico"]);
+
+interface CliOptions {
+	filePath: string;
+	port: number;
+	openBrowser: boolean;
+}
+
+function printUsage(): void {
+	console.log(`
+${chalk.bold("Usage:")} blankmd <file.md> [options]
+
+${chalk.bold("Options:")}
+  --port <number>  Port to listen on (default: ${DEFAULT_PORT})
+  --no-open        Don't open the browser
+  -h, --help       Show this help
+`);
+}
+
+function parseArgs(args: string[]): CliOptions {
+	if (args.includes("-h") || args.includes("--help")) {
+		printUsage();
+		process.exit(0);
+	}
+
+	const portIdx = args.indexOf("--port");
+	const portArg = portIdx !== -1 ? args[portIdx + 1] : undefined;
+	const port = portArg ? Number.parseInt(portArg, 10) : DEFAULT_PORT;
+
+	if (Number.isNaN(port)) {
+		console.error(chalk.red(`Invalid port: ${portArg}`));
+		process.exit(1);
+	}
+
+	const positional = args.filter((arg, i) => !arg.startsWith("-") && !(portIdx !== -1 && i === portIdx + 1));
+	const fileArg = positional[0];
+
+	if (!fileArg) {
+		printUsage();
+		process.exit(1);
+	}
+
+	return {
+		filePath: path.resolve(fileArg),
+		port,
+		openBrowser: !args.includes("--no-open"),
+	};
+}
+
+/**
+ * Bundle the editor in file-editing mode (IS_STANDALONE = false)
+ */
+async function buildHtml(filePath: string): Promise<string> {
+	const result = await Bun.build({
+		entrypoints: [ENTRY],
+		target: "browser",
+		minify: true,
+		sourcemap: "none",
+		define: {
+			IS_STANDALONE: "false",
+		},
+	});
+
+	if (!result.success) {
+		const errors = result.logs.map((l) => l.message).join("\n");
+		throw new Error(errors);
+	}
+
+	const jsOutput = result.outputs[0];
+	if (!jsOutput) {
+		throw new Error("No build output");
+	}
+
+	const js = await jsOutput.text();
+	const css = await loadStyles();
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0, maximum-scale=1.0, user-scalable=no">
+  <title>${path.basename(filePath)}</title>
+  <link rel="icon" type="image/svg+xml" href="data:image/svg+xml,<svg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 100 100'><text y='.9em' font-size='90'>📝</text></svg>">
+  <style>${css}</style>
+</head>
+<body>
+  <div id="editor"></div>
+  <script>${js}</script>
+</body>
+</html>`;
+}
+
+/**
+ * Read the file, treating a missing file as empty (it is created on first save)
+ */
+async function readContent(filePath: string): Promise<string> {
+	const file = Bun.file(filePath);
+	return (await file.exists()) ? file.text() : "";
+}
+
+/**
+ * Write the file through a temporary sibling so a failed write never truncates it
+ */
+async function writeContent(filePath: string, content: string): Promise<void> {
+	const tmpPath = `${filePath}.blankmd-${process.pid}.tmp`;
+	await Bun.write(tmpPath, content);
+	fs.renameSync(tmpPath, filePath);
+}
+
+/**
+ * Check that a write comes from the editor page itself
+ * Other sites can post to localhost too, and a rebound DNS name would carry its own Host.
+ */
+function isFromEditor(req: Request, port: number): boolean {
+	const hosts = [`localhost:${port}`, `127.0.0.1:${port}`];
+	const host = req.headers.get("Host");
+	const origin = req.headers.get("Origin");
+	return host !== null && hosts.includes(host) && origin !== null && hosts.some((h) => origin === `http://${h}`);
+}
+
+/**
+ * Get the media type of a request without its parameters
+ */
+function getMediaType(req: Request): string {
+	return (req.headers.get("Content-Type") ?? "").split(";")[0]!.trim().toLowerCase();
+}
+
+async function handleContentRequest(req: Request, filePath: string, port: number): Promise<Response> {
+	if (req.method === "GET") {
+		return Response.json({ content: await readContent(filePath), filePath });
+	}
+
+	if (req.method === "POST") {
+		if (!isFromEditor(req, port)) {
+			return Response.json({ error: "Forbidden" }, { status: 403 });
+		}
+
+		if (getMediaType(req) !== "application/json") {
+			return Response.json({ error: "Expected application/json" }, { status: 415 });
+		}
+
+		let body: unknown;
+		try {
+			body = await req.json();
+		} catch {
+			return Response.json({ error: "Invalid JSON body" }, { status: 400 });
+		}
+
+		const content = (body as { content?: unknown; } | null)?.content;
+		if (typeof content !== "string") {
+			return Response.json({ error: "Expected { content: string }" }, { status: 400 });
+		}
+
+		try {
+			await writeContent(filePath, content);
+		} catch (err) {
+			console.error(chalk.red("Save failed:"), err);
+			return Response.json({ error: "Failed to write file" }, { status: 500 });
+		}
+
+		console.log(chalk.dim(`${new Date().toLocaleTimeString()} saved ${path.basename(filePath)}`));
+		return Response.json({ ok: true });
+	}
+
+	return new Response("Method Not Allowed", { status: 405, headers: { Allow: "GET, POST" } });
+}
+
+/**
+ * Pick a free name for an uploaded image in the markdown file's directory
+ */
+function uniqueImageName(dir: string, originalName: string, extension: string): string {
+	const base =
+		path
+			.basename(originalName, path.extname(originalName))
+			.toLowerCase()
+			.replace(/[^a-z0-9_-]+/g, "-")
+			.replace(/^-+|-+$/g, "") || "image";
+
+	for (let i = 0; ; i++) {
+		const name = `${base}${i === 0 ? "" : `-${i}`}${extension}`;
+		if (!fs.existsSync(path.join(dir, name))) return name;
+	}
+}
+
+/**
+ * Save an uploaded image next to the markdown file, answering with its relative path
+ */
+async function handleImageRequest(req: Request, filePath: string, port: number): Promise<Response> {
+	if (req.method !== "POST") {
+		return new Response("Method Not Allowed", { status: 405, headers: { Allow: "POST" } });
+	}
+
+	if (!isFromEditor(req, port)) {
+		return Response.json({ error: "Forbidden" }, { status: 403 });
+	}
+
+	const type = getMediaType(req);
+	const extension = IMAGE_EXTENSIONS[type];
+	if (!extension) {
+		return Response.json({ error: `Unsupported image type: ${type || "unknown"}` }, { status: 415 });
+	}
+
+	const bytes = await req.arrayBuffer();
+	if (bytes.byteLength === 0 || bytes.byteLength > MAX_IMAGE_BYTES) {
+		return Response.json({ error: "Image is empty or too large" }, { status: 413 });
+	}
+
+	const dir = path.dirname(filePath);
+	const name = uniqueImageName(dir, new URL(req.url).searchParams.get("name") ?? "image", extension);
+
+	try {
+		await Bun.write(path.join(dir, name), bytes);
+	} catch (err) {
+		console.error(chalk.red("Image save failed:"), err);
+		return Response.json({ error: "Failed to write image" }, { status: 500 });
+	}
+
+	console.log(chalk.dim(`${new Date().toLocaleTimeString()} saved ${name}`));
+	return Response.json({ path: name });
+}
+
+/**
+ * Serve an image from the markdown file's directory, never from outside it
+ */
+async function serveLocalImage(pathname: string, filePath: string): Promise<Response | null> {
+	const dir = path.dirname(filePath);
+	let target: string;
+	try {
+		target = path.resolve(dir, `.${decodeURIComponent(pathname)}`);
+	} catch {
+		return null;
+	}
+
+	if (!target.startsWith(dir + path.sep) || !SERVED_IMAGE_EXTENSIONS.has(path.extname(target).toLowerCase())) {
+		return null;
+	}
+
+	const file = Bun.file(target);
+	if (!(await file.exists())) return null;
+
+	// Keep SVGs from running scripts if opened directly
+	return new Response(file, { headers: { "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'" } });
+}
+
+/**
+ * Start the server, moving to the next port if the requested one is taken
+ */
+function serve(port: number, fetch: (req: Request) => Promise<Response>) {
+	for (let attempt = 0; attempt < MAX_PORT_ATTEMPTS; attempt++) {
+		try {
+			return Bun.serve({ port: port + attempt, hostname: "127.0.0.1", fetch });
+		} catch (err) {
+			if ((err as { code?: string; }).code !== "EADDRINUSE") throw err;
+		}
+	}
+
+	throw new Error(`No free port found in ${port}-${port + MAX_PORT_ATTEMPTS - 1}`);
+}
+
+async function main() {
+	const options = parseArgs(Bun.argv.slice(2));
+	const { filePath } = options;
+
+	if (!fs.existsSync(path.dirname(filePath))) {
+		console.error(chalk.red(`Directory does not exist: ${path.dirname(filePath)}`));
+		process.exit(1);
+	}
+
+	const spinner = ora("Building editor...").start();
+	let html: string;
+	try {
+		html = await buildHtml(filePath);
+		spinner.succeed("Editor ready");
+	} catch (err) {
+		spinner.fail("Build failed");
+		console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+		process.exit(1);
+	}
+
+	const server = serve(options.port, async (req) => {
+		const url = new URL(req.url);
+
+		if (url.pathname === "/" || url.pathname === "/index.html") {
+			return new Response(html, {
+				headers: { "Content-Type": "text/html" },
+			});
+		}
+
+		if (url.pathname === CONTENT_ROUTE) {
+			return handleContentRequest(req, filePath, server.port!);
+		}
+
+		if (url.pathname === IMAGE_ROUTE) {
+			return handleImageRequest(req, filePath, server.port!);
+		}
+
+		if (req.method === "GET") {
+			const image = await serveLocalImage(url.pathname, filePath);
+			if (image) return image;
+		}
+
+		return new Response("Not Found", { status: 404 });
+	});
+
+	const url = `http://localhost:${server.port}`;
+
+	console.log(
+		boxen(
+			`${chalk.bold("blankmd")}\n\n` +
+			`${chalk.dim("File:")}   ${filePath}${fs.existsSync(filePath) ? "" : chalk.dim(" (new)")}\n` +
+			`${chalk.dim("Editor:")} ${chalk.cyan(url)}\n\n` +
+			chalk.dim("Press Ctrl+C to stop"),
+			{ padding: 1, borderStyle: "round", borderColor: "cyan" }
+		)
+	);
+
+	if (options.openBrowser) {
+		open(url);
+	}
+
+	process.on("SIGINT", () => {
+		console.log(chalk.dim("\nShutting down..."));
+		server.stop();
+		process.exit(0);
+	});
+}
+
+main();
@@ -9,12 +9,12 @@
 import * as path from "node:path";
 import * as fs from "node:fs";
 import chalk from "chalk";
+import { loadStyles } from "./styles";
 
 const PORT = 1999;
 const ROOT_DIR = path.join(import.meta.dirname, "..");
 const SRC_DIR = path.join(ROOT_DIR, "src");
 const ENTRY = path.join(SRC_DIR, "index.ts");
-const CSS_PATH = path.join(SRC_DIR, "styles.css");
 
 
 async function buildHtml(): Promise<string> {
@@ -40,7 +40,7 @@ async function buildHtml(): Promise<string> {
 	}
 
 	const js = await jsOutput.text();
-	const css = await Bun.file(CSS_PATH).text();
+	const css = await loadStyles();
 
 	return `<!DOCTYPE html>
 <html lang="en">
@@ -0,0 +1,35 @@
+/**
+ * Stylesheet loading shared by the build, dev server and CLI
+ * Combines the editor styles with the KaTeX stylesheet, with its fonts inlined
+ * so math renders offline from the single HTML file.
+ */
+
+import * as path from "node:path";
+
+const ROOT_DIR = path.join(import.meta.dirname, "..");
+const CSS_PATH = path.join(ROOT_DIR, "src", "styles.css");
+
+/**
+ * Inline the KaTeX fonts as data URIs, keeping only the woff2 sources
+ */
+async function loadKatexCss(): Promise<string> {
+	const distDir = path.dirname(Bun.resolveSync("katex", ROOT_DIR));
+	const css = await Bun.file(path.join(distDir, "katex.min.css")).text();
+
+	const fonts = new Map<string, string>();
+	for (const [, file] of css.matchAll(/url\((fonts\/[^)]+\.woff2)\)/g)) {
+		if (fonts.has(file!)) continue;
+		const data = Buffer.from(await Bun.file(path.join(distDir, file!)).arrayBuffer()).toString("base64");
+		fonts.set(file!, `url(data:font/woff2;base64,${data}) format("woff2")`);
+	}
+
+	return css.replace(/src:url\((fonts\/[^)]+\.woff2)\) format\("woff2"\)[^;}]*/g, (_, file: string) => `src:${fonts.get(file)}`);
+}
+
+/**
+ * Load all styles for inlining into <style>
+ */
+export async function loadStyles(): Promise<string> {
+	const [katexCss, css] = await Promise.all([loadKatexCss(), Bun.file(CSS_PATH).text()]);
+	return `${katexCss}\n${css}`;
+}
@@ -21,6 +21,12 @@ export const FONTS: FontOption[] = [
 export const isMobile = (): boolean =>
 	typeof window !== "undefined" && window.innerWidth <= 768;
 
+/**
+ * Check if running on macOS or iOS, where Ctrl is not the shortcut modifier
+ */
+export const isMac = (): boolean =>
+	typeof navigator !== "undefined" && /Mac|iPhone|iPad|iPod/.test(navigator.platform);
+
 /**
  * Default editor settings
  */
@@ -36,9 +42,15 @@ export function getDefaultSettings(): EditorSettings {
 		headingSpacing: 1.5,
 		paddingHorizontal: mobile ? 1 : 2,
 		paddingTop: mobile ? 1 : 2,
+		showStatusBar: false,
 	};
 }
 
+/**
+ * Prefix shared by every storage key
+ */
+export const STORAGE_PREFIX = "blankmd:";
+
 /**
  * Storage keys used by the editor
  */
@@ -46,10 +58,26 @@ export const STORAGE_KEYS = {
 	content: "blankmd:content",
 	settings: "blankmd:settings",
 	toolbar: "blankmd:toolbar-visible",
+	toolbarLayout: "blankmd:toolbar-layout",
+	outline: "blankmd:outline-open",
+	viewMode: "blankmd:view-mode",
+	recentCommands: "blankmd:recent-commands",
+	keybindings: "blankmd:keybindings",
 	customTheme: "blankmd:custom-theme",
+	settingsProfiles: "blankmd:settings-profiles",
+	documents: "blankmd:documents",
+	activeDocument: "blankmd:active-document",
+	documentPrefix: "blankmd:document:",
+	snapshotPrefix: "blankmd:snapshots:",
+	snapshotContentPrefix: "blankmd:snapshot-content:",
 } as const;
 
 /**
  * Editor placeholder text
  */
 export const PLACEHOLDER_TEXT = "Start writing...";
+
+/**
+ * Title used for documents without a heading
+ */
+export const UNTITLED_DOCUMENT = "Untitled";
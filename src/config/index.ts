@@ -4,4 +4,13 @@
  */
 
 export { darkTheme, lightTheme, getThemeTokens } from "./themes";
-export { FONTS, isMobile, getDefaultSettings, STORAGE_KEYS, PLACEHOLDER_TEXT } from "./defaults";
+export {
+	FONTS,
+	isMobile,
+	isMac,
+	getDefaultSettings,
+	STORAGE_KEYS,
+	STORAGE_PREFIX,
+	PLACEHOLDER_TEXT,
+	UNTITLED_DOCUMENT,
+} from "./defaults";
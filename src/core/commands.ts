@@ -0,0 +1,138 @@
+/**
+ * Command registry behind the command palette
+ * Toolbar buttons, quick actions, settings and third-party code register
+ * commands here so they can all be searched and run from one place.
+ * @module core/commands
+ */
+
+import type { Editor } from "@tiptap/core";
+import type { EditorCommand } from "../types";
+import { recentCommandStorage } from "./storage";
+
+export interface CommandMatch {
+	command: EditorCommand;
+	/** Label the query was matched against, e.g. "Format: Bold" */
+	label: string;
+	/** Indexes of the matched characters in the label */
+	positions: number[];
+	score: number;
+}
+
+/** Recently run commands to remember */
+const MAX_RECENT_COMMANDS = 10;
+
+/** Score added to the most recently run command, decreasing with age */
+const RECENT_BONUS = 12;
+
+const commands = new Map<string, EditorCommand>();
+
+/**
+ * Add commands to the registry, replacing any with the same id
+ * Returns a function that removes them again.
+ */
+export function registerCommands(...added: EditorCommand[]): () => void {
+	for (const command of added) {
+		commands.set(command.id, command);
+	}
+
+	return () => {
+		for (const command of added) {
+			if (commands.get(command.id) === command) commands.delete(command.id);
+		}
+	};
+}
+
+/**
+ * Get every registered command, in registration order
+ */
+export function getCommands(): EditorCommand[] {
+	return Array.from(commands.values());
+}
+
+/**
+ * Get a registered command by id
+ */
+export function getCommand(id: string): EditorCommand | null {
+	return commands.get(id) ?? null;
+}
+
+/**
+ * Get the label a command is listed and searched by
+ */
+export function getCommandLabel(command: EditorCommand): string {
+	return command.category ? `${command.category}: ${command.title}` : command.title;
+}
+
+/**
+ * Run a command by id and remember it as recently used
+ */
+export function runCommand(editor: Editor, id: string): boolean {
+	const command = commands.get(id);
+	if (!command) return false;
+
+	const recent = recentCommandStorage.load().filter((recentId) => recentId !== id);
+	recentCommandStorage.save([id, ...recent].slice(0, MAX_RECENT_COMMANDS));
+
+	command.action(editor);
+	return true;
+}
+
+/**
+ * Match a query against text, allowing characters to be skipped
+ * Runs of consecutive characters and matches at the start of words score higher.
+ * Returns null when the text does not contain every query character in order.
+ */
+export function fuzzyMatch(query: string, text: string): { score: number; positions: number[] } | null {
+	const needle = query.toLowerCase().replace(/\s+/g, "");
+	if (!needle) return { score: 0, positions: [] };
+
+	const haystack = text.toLowerCase();
+	const positions: number[] = [];
+	let score = 0;
+	let index = 0;
+
+	for (const char of needle) {
+		const found = haystack.indexOf(char, index);
+		if (found === -1) return null;
+
+		const previous = positions[positions.length - 1];
+		const atWordStart = found === 0 || !/[a-z0-9]/.test(haystack[found - 1]!);
+
+		score += 1;
+		if (previous !== undefined && found === previous + 1) score += 3;
+		if (atWordStart) score += 5;
+
+		positions.push(found);
+		index = found + 1;
+	}
+
+	// Prefer shorter labels when the matches are otherwise equal
+	return { score: score - haystack.length * 0.01, positions };
+}
+
+/**
+ * Search the registry, ranking recently used commands first
+ * An empty query lists recent commands followed by the rest in registration order.
+ */
+export function searchCommands(query: string): CommandMatch[] {
+	const recent = recentCommandStorage.load();
+	const matches: CommandMatch[] = [];
+
+	for (const command of commands.values()) {
+		const label = getCommandLabel(command);
+		let match = fuzzyMatch(query, label);
+
+		// Keywords can match too, without anything to highlight in the label
+		if (!match && command.keywords?.some((keyword) => fuzzyMatch(query, keyword))) {
+			match = { score: 0, positions: [] };
+		}
+		if (!match) continue;
+
+		const recentIndex = recent.indexOf(command.id);
+		const bonus = recentIndex === -1 ? 0 : RECENT_BONUS * (1 - recentIndex / MAX_RECENT_COMMANDS);
+		matches.push({ command, label, positions: match.positions, score: match.score + bonus });
+	}
+
+	// Array sort is stable, so equal scores keep registration order
+	return matches.sort((a, b) => b.score - a.score);
+}
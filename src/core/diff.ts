@@ -0,0 +1,179 @@
+/**
+ * Line diff between markdown versions of a document
+ * @module core/diff
+ */
+
+import type { Editor } from "@tiptap/core";
+import { loadFileContent } from "./editor";
+import { getSnapshot } from "./snapshots";
+
+/** What the current document is compared with */
+export type DiffSource = { type: "file" } | { type: "snapshot"; id: string };
+
+export type DiffLineType = "equal" | "added" | "removed";
+
+export interface DiffLine {
+	type: DiffLineType;
+	text: string;
+	/** Index of the hunk a changed line belongs to, null for unchanged lines */
+	hunk: number | null;
+}
+
+export interface DiffHunk {
+	/** First line of the hunk in the old text (0-based) */
+	oldStart: number;
+	oldLines: string[];
+	/** First line of the hunk in the new text (0-based) */
+	newStart: number;
+	newLines: string[];
+}
+
+export interface LineDiff {
+	lines: DiffLine[];
+	hunks: DiffHunk[];
+}
+
+/**
+ * Shortest edit script between two line arrays (Myers' algorithm)
+ * Each step keeps only the diagonals it can reach, so memory grows with the
+ * square of the number of edits rather than with the size of the documents.
+ */
+function diffSequences(a: string[], b: string[]): Array<{ type: DiffLineType; text: string }> {
+	const n = a.length;
+	const m = b.length;
+	const max = n + m;
+	const offset = max + 1;
+	const v = new Int32Array(2 * max + 3);
+	const trace: Int32Array[] = [];
+
+	const choosesDown = (row: (k: number) => number, k: number, d: number) =>
+		k === -d || (k !== d && row(k - 1) < row(k + 1));
+
+	search: for (let d = 0; d <= max; d++) {
+		trace.push(v.slice(offset - d, offset + d + 1));
+
+		for (let k = -d; k <= d; k += 2) {
+			let x = choosesDown((i) => v[offset + i]!, k, d) ? v[offset + k + 1]! : v[offset + k - 1]! + 1;
+			let y = x - k;
+			while (x < n && y < m && a[x] === b[y]) {
+				x++;
+				y++;
+			}
+			v[offset + k] = x;
+			if (x >= n && y >= m) break search;
+		}
+	}
+
+	const script: Array<{ type: DiffLineType; text: string }> = [];
+	let x = n;
+	let y = m;
+
+	for (let d = trace.length - 1; d >= 0; d--) {
+		const row = trace[d]!;
+		const at = (k: number) => row[k + d]!;
+		const k = x - y;
+		let prevX = 0;
+		let prevY = 0;
+
+		if (d > 0) {
+			const prevK = choosesDown(at, k, d) ? k + 1 : k - 1;
+			prevX = at(prevK);
+			prevY = prevX - prevK;
+		}
+
+		while (x > prevX && y > prevY) {
+			script.push({ type: "equal", text: a[--x]! });
+			y--;
+		}
+
+		if (d === 0) break;
+		if (x === prevX) {
+			script.push({ type: "added", text: b[--y]! });
+		} else {
+			script.push({ type: "removed", text: a[--x]! });
+		}
+	}
+
+	return script.reverse();
+}
+
+/**
+ * Compare two texts line by line
+ * Consecutive changed lines are grouped into hunks that can be applied on their own.
+ */
+export function diffLines(oldText: string, newText: string): LineDiff {
+	const script = diffSequences(oldText.split("\n"), newText.split("\n"));
+	const lines: DiffLine[] = [];
+	const hunks: DiffHunk[] = [];
+
+	let oldIndex = 0;
+	let newIndex = 0;
+	let current: DiffHunk | null = null;
+
+	for (const step of script) {
+		if (step.type === "equal") {
+			current = null;
+			lines.push({ ...step, hunk: null });
+			oldIndex++;
+			newIndex++;
+			continue;
+		}
+
+		if (!current) {
+			current = { oldStart: oldIndex, oldLines: [], newStart: newIndex, newLines: [] };
+			hunks.push(current);
+		}
+
+		if (step.type === "removed") {
+			current.oldLines.push(step.text);
+			oldIndex++;
+		} else {
+			current.newLines.push(step.text);
+			newIndex++;
+		}
+		lines.push({ ...step, hunk: hunks.length - 1 });
+	}
+
+	return { lines, hunks };
+}
+
+/**
+ * Replace a run of lines in a text
+ */
+function spliceLines(text: string, start: number, deleteCount: number, insert: string[]): string {
+	const lines = text.split("\n");
+	lines.splice(start, deleteCount, ...insert);
+	return lines.join("\n");
+}
+
+/**
+ * Undo a hunk in the new text, bringing back the old lines
+ */
+export function revertHunk(newText: string, hunk: DiffHunk): string {
+	return spliceLines(newText, hunk.newStart, hunk.newLines.length, hunk.oldLines);
+}
+
+/**
+ * Apply a hunk to the old text, so it no longer differs there
+ */
+export function acceptHunk(oldText: string, hunk: DiffHunk): string {
+	return spliceLines(oldText, hunk.oldStart, hunk.oldLines.length, hunk.newLines);
+}
+
+/**
+ * Load the markdown the current document is compared with
+ * It is passed through the editor's parser and serializer so formatting the
+ * editor normalizes on save (list markers, spacing) does not show as changes.
+ * Returns null if the source is unavailable.
+ */
+export async function loadDiffBase(editor: Editor, source: DiffSource): Promise<string | null> {
+	const { manager } = editor.storage.markdown;
+
+	if (source.type === "file") {
+		const content = await loadFileContent();
+		return content === null ? null : manager.serialize(manager.parse(content));
+	}
+
+	const snapshot = getSnapshot(source.id);
+	return snapshot ? manager.serialize(snapshot.content) : null;
+}
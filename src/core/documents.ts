@@ -0,0 +1,197 @@
+/**
+ * Multi-document workspace
+ * @module core/documents
+ */
+
+import type { Editor, JSONContent } from "@tiptap/core";
+import type { DocumentSummary, StoredDocument } from "../types";
+import { documentStorage, contentStorage } from "./storage";
+import { UNTITLED_DOCUMENT } from "../config";
+
+type ActiveDocumentListener = (id: string) => void;
+
+const activeDocumentListeners = new Set<ActiveDocumentListener>();
+
+/**
+ * Subscribe to the editor switching to another document
+ * Returns a function that removes the listener.
+ */
+export function onActiveDocumentChange(listener: ActiveDocumentListener): () => void {
+	activeDocumentListeners.add(listener);
+	return () => activeDocumentListeners.delete(listener);
+}
+
+/**
+ * Replace the editor content without making the switch undoable
+ */
+function loadIntoEditor(editor: Editor, content: JSONContent | null): void {
+	editor
+		.chain()
+		.setContent(content ?? "")
+		.setMeta("addToHistory", false)
+		.run();
+}
+
+/**
+ * Mark a document as active and notify listeners
+ * Pass content to load it into the editor first.
+ */
+function setActiveDocument(editor: Editor, id: string, content?: JSONContent | null): void {
+	documentStorage.setActiveId(id);
+	if (content !== undefined) {
+		loadIntoEditor(editor, content);
+	}
+
+	for (const listener of activeDocumentListeners) {
+		listener(id);
+	}
+}
+
+/**
+ * Collect the plain text of a JSON node
+ */
+function getNodeText(node: JSONContent): string {
+	if (node.text) return node.text;
+	return (node.content ?? []).map(getNodeText).join("");
+}
+
+/**
+ * Derive a document title from its first heading
+ */
+export function getDocumentTitle(content: JSONContent | null): string {
+	const heading = content?.content?.find((node) => node.type === "heading");
+	const title = heading ? getNodeText(heading).trim() : "";
+	return title || UNTITLED_DOCUMENT;
+}
+
+/**
+ * List documents, most recently edited first
+ */
+export function listDocuments(): DocumentSummary[] {
+	return documentStorage.list().sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Get the id of the document currently open in the editor
+ */
+export function getActiveDocumentId(): string | null {
+	return documentStorage.getActiveId();
+}
+
+/**
+ * Get the content of the active document, or null if the workspace is empty
+ */
+export function loadActiveDocument(): StoredDocument | null {
+	const id = documentStorage.getActiveId();
+	return (id && documentStorage.get(id)) || null;
+}
+
+/**
+ * Make sure the workspace has an active document
+ * On first run this moves the legacy single-document content into the workspace.
+ */
+export function ensureActiveDocument(editor: Editor): void {
+	if (loadActiveDocument()) return;
+
+	const existing = listDocuments()[0];
+	if (existing) {
+		setActiveDocument(editor, existing.id, documentStorage.get(existing.id)?.content ?? null);
+		return;
+	}
+
+	// The editor was created with the legacy content, so its JSON is the migrated form
+	const content = editor.getJSON();
+	const doc = documentStorage.create(content, getDocumentTitle(content));
+	setActiveDocument(editor, doc.id);
+	contentStorage.clear();
+}
+
+/**
+ * Persist the editor content into the active document
+ */
+export function saveActiveDocument(editor: Editor): void {
+	const id = documentStorage.getActiveId();
+	if (!id) return;
+
+	const content = editor.getJSON();
+	documentStorage.save(id, content, getDocumentTitle(content));
+}
+
+/**
+ * Open a document in the editor
+ */
+export function openDocument(editor: Editor, id: string): void {
+	const doc = documentStorage.get(id);
+	if (!doc) return;
+
+	// Save the outgoing document before its content is replaced
+	saveActiveDocument(editor);
+	setActiveDocument(editor, id, doc.content);
+	editor.commands.focus("start");
+}
+
+/**
+ * Create an empty document and open it
+ */
+export function createNewDocument(editor: Editor): StoredDocument {
+	const doc = documentStorage.create(null, UNTITLED_DOCUMENT);
+	openDocument(editor, doc.id);
+	return doc;
+}
+
+/**
+ * Copy a document under a new id
+ */
+export function duplicateDocument(editor: Editor, id: string): StoredDocument | null {
+	// Make sure a pending edit of the active document is part of the copy
+	if (id === documentStorage.getActiveId()) {
+		saveActiveDocument(editor);
+	}
+
+	const source = documentStorage.get(id);
+	if (!source) return null;
+
+	const copy = documentStorage.create(source.content, source.title);
+	documentStorage.rename(copy.id, `${source.title} (copy)`, true);
+	return documentStorage.get(copy.id);
+}
+
+/**
+ * Give a document a fixed title
+ * An empty title goes back to deriving it from the first heading.
+ */
+export function renameDocument(editor: Editor, id: string, title: string): void {
+	const trimmed = title.trim();
+	if (trimmed) {
+		documentStorage.rename(id, trimmed, true);
+		return;
+	}
+
+	if (id === documentStorage.getActiveId()) {
+		saveActiveDocument(editor);
+	}
+
+	const doc = documentStorage.get(id);
+	if (doc) {
+		documentStorage.rename(id, getDocumentTitle(doc.content), false);
+	}
+}
+
+/**
+ * Delete a document
+ * Deleting the open document switches to the most recent remaining one.
+ */
+export function deleteDocument(editor: Editor, id: string): void {
+	const wasActive = id === documentStorage.getActiveId();
+	documentStorage.remove(id);
+
+	if (!wasActive) return;
+
+	const next = listDocuments()[0];
+	if (next) {
+		setActiveDocument(editor, next.id, documentStorage.get(next.id)?.content ?? null);
+	} else {
+		const doc = documentStorage.create(null, UNTITLED_DOCUMENT);
+		setActiveDocument(editor, doc.id, null);
+	}
+}
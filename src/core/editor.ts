@@ -6,14 +6,41 @@
 import { Editor } from "@tiptap/core";
 import StarterKit from "@tiptap/starter-kit";
 import Placeholder from "@tiptap/extension-placeholder";
-import CodeBlockLowlight from "@tiptap/extension-code-block-lowlight";
+import TaskList from "@tiptap/extension-task-list";
+import TaskItem from "@tiptap/extension-task-item";
 import { common, createLowlight } from "lowlight";
 import { Markdown } from "@tiptap/markdown";
 
-import { PasteMarkdown } from "./extensions";
-import { contentStorage } from "./storage";
+import { PasteMarkdown, SafeLink, SlashCommands } from "./extensions";
+import { getTableExtensions } from "./table";
+import { Search } from "./search";
+import { FrontMatter, FrontMatterDocument } from "./frontmatter";
+import { InlineMath, BlockMath } from "./math";
+import { MermaidCodeBlock } from "./mermaid";
+import { FootnoteReference, FootnoteDefinition } from "./footnotes";
+import { Image, storeLocalImage } from "./images";
+import { initSnapshots, takeSnapshot } from "./snapshots";
+import { contentStorage, initStorage } from "./storage";
+import { registerCommands } from "./commands";
+import { initKeybindings } from "./keybindings";
+import {
+	ensureActiveDocument,
+	loadActiveDocument,
+	saveActiveDocument,
+	createNewDocument,
+	getDocumentTitle,
+	getActiveDocumentId,
+	onActiveDocumentChange,
+} from "./documents";
+import {
+	pickMarkdownFile,
+	pickSaveLocation,
+	writeFile,
+	downloadFile,
+	supportsFileSystemAccess,
+} from "./file-access";
 import { PLACEHOLDER_TEXT } from "../config";
-import type { ApiContentResponse } from "../types";
+import type { ApiContentResponse, ApiImageResponse, StoredContent } from "../types";
 
 // Build-time flag for standalone mode
 declare const IS_STANDALONE: boolean;
@@ -23,49 +50,129 @@ const isStandalone = typeof IS_STANDALONE !== "undefined" && IS_STANDALONE;
 const lowlight = createLowlight(common);
 
 // Editor state for file editing mode
-interface EditorFileState {
+export interface EditorFileState {
 	isEditingFile: boolean;
 	filePath: string | null;
 	hasUnsavedChanges: boolean;
+	/** A write to the file is in progress */
+	isSaving: boolean;
+	/** Set when the last write failed, cleared by the next successful one */
+	saveError: string | null;
 }
 
 const fileState: EditorFileState = {
 	isEditingFile: false,
 	filePath: null,
 	hasUnsavedChanges: false,
+	isSaving: false,
+	saveError: null,
 };
 
+type FileStateListener = (state: Readonly<EditorFileState>) => void;
+
+const fileStateListeners = new Set<FileStateListener>();
+
+/**
+ * Subscribe to file state changes (save state, attached file)
+ * Returns a function that removes the listener.
+ */
+export function onFileStateChange(listener: FileStateListener): () => void {
+	fileStateListeners.add(listener);
+	return () => fileStateListeners.delete(listener);
+}
+
+/**
+ * Update the file state, then the tab title and listeners
+ */
+function setFileState(changes: Partial<EditorFileState>): void {
+	Object.assign(fileState, changes);
+	updateDocumentTitle();
+
+	const snapshot = { ...fileState };
+	for (const listener of fileStateListeners) {
+		listener(snapshot);
+	}
+}
+
 /**
- * Load initial content from API or localStorage
+ * Line ending of the file being edited
+ * The markdown parser reads every line ending as `\n`, so the one the file
+ * used is put back when it is saved.
  */
-async function loadInitialContent(): Promise<string> {
-	// In standalone mode, only use localStorage
+let fileLineEnding = "\n";
+
+/**
+ * Get the line ending a file uses, going by its first line break
+ */
+function detectLineEnding(text: string): string {
+	return /\r?\n/.exec(text)?.[0] ?? "\n";
+}
+
+/**
+ * Describe a failed save for the status indicator
+ */
+function describeError(err: unknown): string {
+	return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Load initial content from API or the document workspace
+ */
+async function loadInitialContent(): Promise<StoredContent | null> {
+	// In standalone mode, only use local storage
 	if (!isStandalone) {
 		try {
 			const response = await fetch("/api/blankmd/content");
 			if (response.ok) {
 				const data = (await response.json()) as ApiContentResponse;
-				if (data.content && data.filePath) {
+				// An empty file is still a file to edit
+				if (data.filePath && data.content !== null) {
 					fileState.isEditingFile = true;
 					fileState.filePath = data.filePath;
-					return data.content;
+					fileLineEnding = detectLineEnding(data.content);
+					return { format: "markdown", data: data.content };
 				}
 			}
 		} catch {
-			// API not available, fall back to localStorage
+			// API not available, fall back to local storage
 		}
 	}
 
+	const active = loadActiveDocument();
+	if (active) {
+		return { format: "prosemirror-json", data: active.content ?? { type: "doc" } };
+	}
+
+	// Fall back to the pre-workspace single document until it is migrated
 	return contentStorage.load();
 }
 
+/**
+ * Fetch the content of the file being edited as it is on disk
+ * Returns null outside file mode or if the API is unavailable.
+ */
+export async function loadFileContent(): Promise<string | null> {
+	if (isStandalone || !fileState.isEditingFile) return null;
+
+	try {
+		const response = await fetch("/api/blankmd/content");
+		if (!response.ok) return null;
+
+		const data = (await response.json()) as ApiContentResponse;
+		return data.content;
+	} catch {
+		return null;
+	}
+}
+
 /**
  * Save content to file via API (for file editing mode)
  */
 async function saveToFile(editor: Editor): Promise<void> {
 	if (isStandalone || !fileState.isEditingFile || !fileState.filePath) return;
 
-	const markdown = editor.storage.markdown.manager.serialize(editor.getJSON());
+	const markdown = getMarkdown(editor);
+	setFileState({ isSaving: true });
 
 	try {
 		const response = await fetch("/api/blankmd/content", {
@@ -74,12 +181,140 @@ async function saveToFile(editor: Editor): Promise<void> {
 			body: JSON.stringify({ content: markdown }),
 		});
 
-		if (response.ok) {
-			fileState.hasUnsavedChanges = false;
-			updateDocumentTitle();
+		if (!response.ok) {
+			throw new Error(`Server responded with ${response.status}`);
+		}
+
+		setFileState({ hasUnsavedChanges: false, isSaving: false, saveError: null });
+	} catch (err) {
+		console.error("Save failed:", err);
+		setFileState({ isSaving: false, saveError: describeError(err) });
+	}
+}
+
+/**
+ * Upload an image to be saved next to the file being edited
+ * Returns the image path relative to the file.
+ */
+async function uploadImage(file: File): Promise<string> {
+	const response = await fetch(`/api/blankmd/image?name=${encodeURIComponent(file.name)}`, {
+		method: "POST",
+		headers: { "Content-Type": file.type },
+		body: file,
+	});
+
+	if (!response.ok) {
+		throw new Error(`Server responded with ${response.status}`);
+	}
+
+	return ((await response.json()) as ApiImageResponse).path;
+}
+
+/**
+ * Handle of the local file attached to the active document (standalone mode)
+ * Null when no file is attached or it was opened through the upload fallback.
+ */
+let localFileHandle: FileSystemFileHandle | null = null;
+
+/**
+ * Serialize the editor content to markdown, with the line endings of the file
+ */
+function getMarkdown(editor: Editor): string {
+	const markdown = editor.storage.markdown.manager.serialize(editor.getJSON());
+	return fileLineEnding === "\n" ? markdown : markdown.replace(/\n/g, fileLineEnding);
+}
+
+/**
+ * Point the file state at a local file that matches the editor content
+ */
+function attachLocalFile(
+	name: string | null,
+	handle: FileSystemFileHandle | null,
+	lineEnding = "\n"
+): void {
+	localFileHandle = handle;
+	fileLineEnding = lineEnding;
+	setFileState({ filePath: name, hasUnsavedChanges: false, isSaving: false, saveError: null });
+}
+
+/**
+ * Open a local markdown file into a new workspace document
+ */
+export async function openFile(editor: Editor): Promise<void> {
+	// A file served by the CLI is the only document in API mode
+	if (fileState.isEditingFile) return;
+
+	try {
+		const file = await pickMarkdownFile();
+		if (!file) return;
+
+		createNewDocument(editor);
+		editor
+			.chain()
+			.setContent(editor.storage.markdown.manager.parse(file.content))
+			.setMeta("addToHistory", false)
+			.run();
+		attachLocalFile(file.name, file.handle, detectLineEnding(file.content));
+	} catch (err) {
+		console.error("Open failed:", err);
+	}
+}
+
+/**
+ * Save to the current file: the API file, the attached local file, or a new one
+ */
+export async function saveFile(editor: Editor): Promise<void> {
+	if (fileState.isEditingFile) {
+		await saveToFile(editor);
+		return;
+	}
+
+	if (!localFileHandle) {
+		await saveFileAs(editor);
+		return;
+	}
+
+	setFileState({ isSaving: true });
+
+	try {
+		await writeFile(localFileHandle, getMarkdown(editor));
+		setFileState({ hasUnsavedChanges: false, isSaving: false, saveError: null });
+	} catch (err) {
+		console.error("Save failed:", err);
+		setFileState({ isSaving: false, saveError: describeError(err) });
+	}
+}
+
+/**
+ * Save to a new local file, downloading it where the save picker is unavailable
+ * In API mode this writes a copy and the CLI file stays the save target.
+ */
+export async function saveFileAs(editor: Editor): Promise<void> {
+	const markdown = getMarkdown(editor);
+	const suggestedName =
+		fileState.filePath?.split("/").pop() ??
+		`${getDocumentTitle(editor.getJSON()).replace(/[\\/:*?"<>|]+/g, "-")}.md`;
+
+	try {
+		let handle: FileSystemFileHandle | null = null;
+
+		if (supportsFileSystemAccess()) {
+			handle = await pickSaveLocation(suggestedName);
+			if (!handle) return;
+
+			setFileState({ isSaving: true });
+			await writeFile(handle, markdown);
+			setFileState({ isSaving: false });
+		} else {
+			downloadFile(suggestedName, markdown);
+		}
+
+		if (!fileState.isEditingFile) {
+			attachLocalFile(handle?.name ?? suggestedName, handle, fileLineEnding);
 		}
 	} catch (err) {
 		console.error("Save failed:", err);
+		setFileState({ isSaving: false, saveError: describeError(err) });
 	}
 }
 
@@ -101,29 +336,46 @@ let saveTimeout: ReturnType<typeof setTimeout> | null = null;
 function handleContentUpdate(editor: Editor): void {
 	if (saveTimeout) clearTimeout(saveTimeout);
 
-	if (fileState.isEditingFile) {
-		fileState.hasUnsavedChanges = true;
-		updateDocumentTitle();
-		return;
+	if ((fileState.isEditingFile || fileState.filePath) && !fileState.hasUnsavedChanges) {
+		setFileState({ hasUnsavedChanges: true });
 	}
 
-	// Auto-save to localStorage with debounce
+	// The file on disk is the only copy in API mode
+	if (fileState.isEditingFile) return;
+
+	// Auto-save the active document with debounce
 	saveTimeout = setTimeout(() => {
-		contentStorage.save(editor.getJSON());
+		saveActiveDocument(editor);
 	}, 500);
 }
 
 /**
- * Setup keyboard shortcuts
+ * Register the file commands with their default shortcuts
  */
-function setupKeyboardShortcuts(editor: Editor): void {
-	document.addEventListener("keydown", (e) => {
-		// Cmd/Ctrl + S to save
-		if ((e.metaKey || e.ctrlKey) && e.key === "s") {
-			e.preventDefault();
-			saveToFile(editor);
+function registerFileCommands(): void {
+	registerCommands(
+		{
+			id: "open-file",
+			title: "Open File…",
+			category: "File",
+			shortcut: "Cmd+O",
+			action: (editor) => openFile(editor),
+		},
+		{
+			id: "save-file",
+			title: "Save",
+			category: "File",
+			shortcut: "Cmd+S",
+			action: (editor) => saveFile(editor),
+		},
+		{
+			id: "save-file-as",
+			title: "Save As…",
+			category: "File",
+			shortcut: "Cmd+Shift+S",
+			action: (editor) => saveFileAs(editor),
 		}
-	});
+	);
 }
 
 /**
@@ -144,17 +396,37 @@ function setupUnloadWarning(): void {
 function getExtensions() {
 	return [
 		StarterKit.configure({
-			codeBlock: false, // Use CodeBlockLowlight instead
+			codeBlock: false, // Use MermaidCodeBlock instead
+			link: false, // Use SafeLink instead
+			document: false, // Use FrontMatterDocument instead
 		}),
-		CodeBlockLowlight.configure({
+		FrontMatterDocument,
+		FrontMatter,
+		SafeLink,
+		MermaidCodeBlock.configure({
 			lowlight,
 			defaultLanguage: "plaintext",
 		}),
+		TaskList,
+		TaskItem.configure({
+			nested: true,
+		}),
+		...getTableExtensions(),
+		InlineMath,
+		BlockMath,
+		FootnoteReference,
+		FootnoteDefinition,
+		Image.configure({
+			// Images go next to the file being edited, otherwise into the browser's storage
+			storeImage: (file) => (!isStandalone && fileState.isEditingFile ? uploadImage(file) : storeLocalImage(file)),
+		}),
 		Placeholder.configure({
 			placeholder: PLACEHOLDER_TEXT,
 		}),
 		Markdown,
 		PasteMarkdown,
+		SlashCommands,
+		Search,
 	];
 }
 
@@ -169,22 +441,34 @@ export interface CreateEditorOptions {
 export async function createEditor(options: CreateEditorOptions): Promise<Editor> {
 	const { element, onReady } = options;
 
+	await initStorage();
 	const initialContent = await loadInitialContent();
 
 	const editor = new Editor({
 		element,
 		extensions: getExtensions(),
-		content: fileState.isEditingFile ? undefined : initialContent,
+		content: initialContent?.format === "prosemirror-json" ? initialContent.data : undefined,
 		onUpdate: ({ editor }) => handleContentUpdate(editor),
 	});
 
-	// If editing a markdown file, parse and set content
-	if (fileState.isEditingFile && initialContent) {
-		const parsed = editor.storage.markdown.manager.parse(initialContent);
+	// Markdown (a file being edited or an old saved slot) is parsed once the manager exists
+	if (initialContent?.format === "markdown" && initialContent.data) {
+		const parsed = editor.storage.markdown.manager.parse(initialContent.data);
 		editor.commands.setContent(parsed);
 	}
 
-	setupKeyboardShortcuts(editor);
+	if (!fileState.isEditingFile) {
+		ensureActiveDocument(editor);
+
+		// A local file belongs to the document it was opened into
+		onActiveDocumentChange(() => attachLocalFile(null, null));
+	}
+
+	initSnapshots(editor, {
+		documentKey: () => (fileState.isEditingFile ? `file:${fileState.filePath}` : getActiveDocumentId()),
+	});
+	registerFileCommands();
+	initKeybindings(editor);
 	setupUnloadWarning();
 
 	onReady?.(editor);
@@ -199,13 +483,21 @@ export function getFileState(): Readonly<EditorFileState> {
 	return { ...fileState };
 }
 
+export interface ReparseOptions {
+	/** Record a version history snapshot first (default true) */
+	snapshot?: boolean;
+}
+
 /**
  * Utility to reparse content as markdown
  */
-export function reparseAsMarkdown(editor: Editor): void {
+export function reparseAsMarkdown(editor: Editor, options: ReparseOptions = {}): void {
+	const { snapshot = true } = options;
+
 	try {
 		const markdown = editor.storage.markdown.manager.serialize(editor.getJSON());
 		const parsed = editor.storage.markdown.manager.parse(markdown);
+		if (snapshot) takeSnapshot(editor, "reparse");
 		editor.commands.setContent(parsed);
 	} catch (err) {
 		console.error("Reparse failed:", err);
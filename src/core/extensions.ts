@@ -4,7 +4,14 @@
  */
 
 import { Extension } from "@tiptap/core";
-import { Plugin } from "prosemirror-state";
+import type { Editor } from "@tiptap/core";
+import Link from "@tiptap/extension-link";
+import { Plugin, PluginKey } from "prosemirror-state";
+import type { EditorState } from "prosemirror-state";
+import type { SlashCommandItem } from "../types";
+
+// Schemes that run code or embed content when a link is followed
+const BLOCKED_LINK_SCHEMES = /^(?:javascript|vbscript|data):/i;
 
 /**
  * Detect if text appears to be markdown
@@ -19,6 +26,10 @@ function looksLikeMarkdown(text: string): boolean {
 		/^\d+\.\s/m.test(text) ||        // Ordered lists
 		/^>\s/m.test(text) ||            // Blockquotes
 		/```[\s\S]*```/.test(text) ||    // Code blocks
+		/^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)+\|?\s*$/m.test(text) || // Table delimiter rows
+		/^\$\$[\s\S]+?\$\$/m.test(text) ||  // Math blocks
+		/^\[\^[^\]\s]+\]:\s/m.test(text) || // Footnote definitions
+		/!\[[^\]]*\]\([^)]+\)/.test(text) || // Images
 		/`[^`]+`/.test(text)             // Inline code
 	);
 }
@@ -37,6 +48,11 @@ export const PasteMarkdown = Extension.create({
 			new Plugin({
 				props: {
 					handlePaste(_view, event, _slice) {
+						// Pasted image files are handled by the image extension
+						if (Array.from(event.clipboardData?.files ?? []).some((file) => file.type.startsWith("image/"))) {
+							return false;
+						}
+
 						const text = event.clipboardData?.getData("text/plain");
 
 						if (!text) {
@@ -58,6 +74,232 @@ export const PasteMarkdown = Extension.create({
 	},
 });
 
+// ============================================================================
+// Slash Commands
+// ============================================================================
+
+export interface SlashMenuState {
+	/** Whether the menu is open */
+	active: boolean;
+	/** Range of the typed "/query", replaced when a command runs */
+	range: { from: number; to: number; } | null;
+	/** Text typed after the slash */
+	query: string;
+	/** Index of the highlighted item in the filtered list */
+	selectedIndex: number;
+	/** Start of a trigger the user dismissed with Escape */
+	dismissedFrom: number | null;
+}
+
+type SlashMenuMeta = { type: "select"; index: number; } | { type: "dismiss"; };
+
+declare module "@tiptap/core" {
+	interface Storage {
+		slashCommands: {
+			/** Registered slash commands, in menu order */
+			items: SlashCommandItem[];
+		};
+	}
+}
+
+export const slashMenuKey = new PluginKey<SlashMenuState>("slashMenu");
+
+const INACTIVE_SLASH_MENU: SlashMenuState = {
+	active: false,
+	range: null,
+	query: "",
+	selectedIndex: 0,
+	dismissedFrom: null,
+};
+
+/**
+ * Find a "/query" trigger directly before the cursor
+ * The slash must start the block or follow whitespace.
+ */
+function findSlashTrigger(state: EditorState): { from: number; to: number; query: string; } | null {
+	const { selection } = state;
+	if (!selection.empty) return null;
+
+	const { $from } = selection;
+	if (!$from.parent.isTextblock || $from.parent.type.spec.code) return null;
+
+	const textBefore = $from.parent.textBetween(0, $from.parentOffset, undefined, "\ufffc");
+	const match = /(?:^|\s)\/([^\s/]*)$/.exec(textBefore);
+	if (!match) return null;
+
+	const query = match[1] ?? "";
+	return { from: $from.pos - query.length - 1, to: $from.pos, query };
+}
+
+/**
+ * Filter slash commands by the typed query
+ * Titles starting with the query are listed first.
+ */
+export function filterSlashCommands(items: SlashCommandItem[], query: string): SlashCommandItem[] {
+	const q = query.toLowerCase();
+	if (!q) return items;
+
+	const matches = (text: string) => text.toLowerCase().includes(q);
+	const filtered = items.filter(
+		(item) => matches(item.title) || item.id.includes(q) || item.keywords?.some(matches)
+	);
+
+	const startsWith = (item: SlashCommandItem) => (item.title.toLowerCase().startsWith(q) ? 0 : 1);
+	return filtered.sort((a, b) => startsWith(a) - startsWith(b));
+}
+
+/**
+ * Get the commands currently shown in the slash menu
+ */
+export function getSlashMenuItems(editor: Editor): SlashCommandItem[] {
+	const state = slashMenuKey.getState(editor.state);
+	if (!state?.active) return [];
+	return filterSlashCommands(editor.storage.slashCommands.items, state.query);
+}
+
+/**
+ * Remove the typed "/query" and run a slash command
+ */
+export function runSlashCommand(editor: Editor, item: SlashCommandItem): void {
+	const state = slashMenuKey.getState(editor.state);
+	if (state?.range) {
+		editor.chain().focus().deleteRange(state.range).run();
+	}
+	item.action(editor);
+}
+
+/**
+ * Select a slash menu item by index (wraps around)
+ */
+export function selectSlashMenuItem(editor: Editor, index: number): void {
+	const count = getSlashMenuItems(editor).length;
+	if (count === 0) return;
+
+	const meta: SlashMenuMeta = { type: "select", index: (index + count) % count };
+	editor.view.dispatch(editor.state.tr.setMeta(slashMenuKey, meta));
+}
+
+/**
+ * Close the slash menu until a new trigger is typed
+ */
+export function dismissSlashMenu(editor: Editor): void {
+	const meta: SlashMenuMeta = { type: "dismiss" };
+	editor.view.dispatch(editor.state.tr.setMeta(slashMenuKey, meta));
+}
+
+/**
+ * Extension that opens a block command menu when "/" is typed
+ * Commands are read from editor.storage.slashCommands.items, and the menu
+ * itself is rendered by the UI layer from the plugin state.
+ */
+export const SlashCommands = Extension.create({
+	name: "slashCommands",
+
+	addStorage() {
+		return {
+			items: [] as SlashCommandItem[],
+		};
+	},
+
+	addProseMirrorPlugins() {
+		const { editor } = this;
+
+		return [
+			new Plugin<SlashMenuState>({
+				key: slashMenuKey,
+				state: {
+					init: () => INACTIVE_SLASH_MENU,
+					apply(tr, prev, _oldState, newState) {
+						const meta = tr.getMeta(slashMenuKey) as SlashMenuMeta | undefined;
+						const trigger = editor.isEditable ? findSlashTrigger(newState) : null;
+
+						if (!trigger) return INACTIVE_SLASH_MENU;
+
+						const dismissedFrom =
+							meta?.type === "dismiss" ? trigger.from : prev.dismissedFrom === trigger.from ? trigger.from : null;
+
+						if (dismissedFrom !== null) {
+							return { ...INACTIVE_SLASH_MENU, dismissedFrom };
+						}
+
+						let selectedIndex = prev.active && prev.query === trigger.query ? prev.selectedIndex : 0;
+						if (meta?.type === "select") selectedIndex = meta.index;
+
+						return {
+							active: true,
+							range: { from: trigger.from, to: trigger.to },
+							query: trigger.query,
+							selectedIndex,
+							dismissedFrom: null,
+						};
+					},
+				},
+				props: {
+					handleKeyDown(view, event) {
+						const state = slashMenuKey.getState(view.state);
+						if (!state?.active) return false;
+
+						const items = getSlashMenuItems(editor);
+
+						if (event.key === "Escape") {
+							dismissSlashMenu(editor);
+							return true;
+						}
+
+						if (items.length === 0) return false;
+
+						if (event.key === "ArrowDown") {
+							selectSlashMenuItem(editor, state.selectedIndex + 1);
+							return true;
+						}
+
+						if (event.key === "ArrowUp") {
+							selectSlashMenuItem(editor, state.selectedIndex - 1);
+							return true;
+						}
+
+						if (event.key === "Enter" || event.key === "Tab") {
+							const item = items[state.selectedIndex] ?? items[0];
+							if (item) runSlashCommand(editor, item);
+							return true;
+						}
+
+						return false;
+					},
+				},
+			}),
+		];
+	},
+});
+
+/**
+ * Check if a URL may be used as a link target
+ */
+export function isSafeLinkUrl(url: string): boolean {
+	// Browsers ignore whitespace and control characters inside a scheme
+	const normalized = url.replace(/[\u0000-\u0020\u007f-\u009f]/g, "");
+	return normalized.length > 0 && !BLOCKED_LINK_SCHEMES.test(normalized);
+}
+
+/**
+ * Link mark with autolinking that refuses script URLs
+ * Unsafe links in parsed markdown are kept as plain text.
+ */
+export const SafeLink = Link.extend({
+	parseMarkdown: (token, h) => {
+		const content = h.parseInline(token.tokens ?? []);
+		if (!token.href || !isSafeLinkUrl(token.href)) return content;
+
+		return h.applyMark("link", content, { href: token.href, title: token.title || null });
+	},
+}).configure({
+	autolink: true,
+	linkOnPaste: true,
+	openOnClick: false,
+	defaultProtocol: "https",
+	isAllowedUri: (url, { defaultValidate }) => isSafeLinkUrl(url) && defaultValidate(url),
+});
+
 /**
  * Re-export for convenience
  */
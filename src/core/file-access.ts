@@ -0,0 +1,135 @@
+/**
+ * Local file access for the standalone build
+ * Uses the File System Access API where available, with upload/download fallbacks.
+ * @module core/file-access
+ */
+
+// The File System Access pickers are not part of TypeScript's DOM lib yet
+interface FilePickerOptions {
+	suggestedName?: string;
+	types?: Array<{ description: string; accept: Record<string, string[]>; }>;
+}
+
+interface FilePickerWindow {
+	showOpenFilePicker(options?: FilePickerOptions): Promise<FileSystemFileHandle[]>;
+	showSaveFilePicker(options?: FilePickerOptions): Promise<FileSystemFileHandle>;
+}
+
+const MARKDOWN_TYPES: FilePickerOptions["types"] = [
+	{
+		description: "Markdown",
+		accept: { "text/markdown": [".md", ".markdown", ".mdown", ".txt"] },
+	},
+];
+
+export interface LocalFile {
+	/** File name (the picker never exposes the full path) */
+	name: string;
+	/** File contents */
+	content: string;
+	/** Handle for writing back, or null when opened through the upload fallback */
+	handle: FileSystemFileHandle | null;
+}
+
+/**
+ * Check if the File System Access pickers are available
+ */
+export function supportsFileSystemAccess(): boolean {
+	return typeof window !== "undefined" && "showOpenFilePicker" in window && "showSaveFilePicker" in window;
+}
+
+/**
+ * Check if an error is the user dismissing a picker
+ */
+function isAbortError(err: unknown): boolean {
+	return err instanceof DOMException && err.name === "AbortError";
+}
+
+/**
+ * Fallback open: a hidden file input
+ */
+function pickWithInput(accept = ".md,.markdown,.mdown,.txt,text/markdown,text/plain"): Promise<File | null> {
+	return new Promise((resolve) => {
+		const input = document.createElement("input");
+		input.type = "file";
+		input.accept = accept;
+		input.addEventListener("change", () => resolve(input.files?.[0] ?? null));
+		input.addEventListener("cancel", () => resolve(null));
+		input.click();
+	});
+}
+
+/**
+ * Ask the user for a markdown file to open
+ * Resolves to null if the picker was dismissed.
+ */
+export async function pickMarkdownFile(): Promise<LocalFile | null> {
+	if (supportsFileSystemAccess()) {
+		try {
+			const [handle] = await (window as unknown as FilePickerWindow).showOpenFilePicker({
+				types: MARKDOWN_TYPES,
+			});
+			if (!handle) return null;
+
+			const file = await handle.getFile();
+			return { name: file.name, content: await file.text(), handle };
+		} catch (err) {
+			if (isAbortError(err)) return null;
+			throw err;
+		}
+	}
+
+	const file = await pickWithInput();
+	return file ? { name: file.name, content: await file.text(), handle: null } : null;
+}
+
+/**
+ * Ask the user for a JSON file and read it
+ * Resolves to null if the picker was dismissed.
+ */
+export async function pickJsonFile(): Promise<LocalFile | null> {
+	const file = await pickWithInput(".json,application/json");
+	return file ? { name: file.name, content: await file.text(), handle: null } : null;
+}
+
+/**
+ * Ask the user where to save a file
+ * Resolves to null if the picker was dismissed or is not supported.
+ */
+export async function pickSaveLocation(suggestedName: string): Promise<FileSystemFileHandle | null> {
+	if (!supportsFileSystemAccess()) return null;
+
+	try {
+		return await (window as unknown as FilePickerWindow).showSaveFilePicker({
+			suggestedName,
+			types: MARKDOWN_TYPES,
+		});
+	} catch (err) {
+		if (isAbortError(err)) return null;
+		throw err;
+	}
+}
+
+/**
+ * Write text to a file handle
+ */
+export async function writeFile(handle: FileSystemFileHandle, content: string): Promise<void> {
+	const writable = await handle.createWritable();
+	await writable.write(content);
+	await writable.close();
+}
+
+/**
+ * Fallback save: download the content as a file
+ */
+export function downloadFile(name: string, content: string, type = "text/markdown;charset=utf-8"): void {
+	const blob = new Blob([content], { type });
+	const url = URL.createObjectURL(blob);
+
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = name;
+	link.click();
+
+	setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,352 @@
+/**
+ * Footnote references (`[^id]`) and definitions (`[^id]: text`)
+ * References are numbered by first appearance with decorations, so the ids
+ * written in the markdown are never changed.
+ * @module core/footnotes
+ */
+
+import { Node } from "@tiptap/core";
+import type { JSONContent, MarkdownToken } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "prosemirror-model";
+import { Plugin, PluginKey, TextSelection } from "prosemirror-state";
+import { Decoration, DecorationSet } from "prosemirror-view";
+
+declare module "@tiptap/core" {
+	interface Commands<ReturnType> {
+		footnotes: {
+			/** Insert a reference with the next free numeric id and an empty definition at the end */
+			insertFootnote: () => ReturnType;
+		};
+	}
+}
+
+export interface FootnoteState {
+	/** Display number for each id, by first reference then by definition order */
+	numbers: Map<string, number>;
+	decorations: DecorationSet;
+}
+
+type FootnoteReferenceToken = MarkdownToken & { label: string };
+type FootnoteDefinitionToken = MarkdownToken & { label: string; tight: boolean };
+
+const FOOTNOTE_REFERENCE = /^\[\^([^\]\s]+)\]/;
+
+/**
+ * A definition runs on over lazy continuation lines and indented lines after blank ones,
+ * stopping at a blank line, the next definition, a heading, a quote or a fence
+ */
+const FOOTNOTE_DEFINITION =
+	/^\[\^([^\]\s]+)\]:[ \t]*([^\n]*(?:\n(?:[ \t]*\n)*(?: {4}|\t)[^\n]*|\n(?![ \t]*\n|\[\^[^\]\s]+\]:|#{1,6}\s|>|```)[^\n]+)*)(?:\n+|$)/;
+
+export const footnoteKey = new PluginKey<FootnoteState>("footnotes");
+
+function computeFootnoteState(doc: ProseMirrorNode): FootnoteState {
+	const numbers = new Map<string, number>();
+	const references: { node: ProseMirrorNode; pos: number }[] = [];
+	const definitions: { node: ProseMirrorNode; pos: number }[] = [];
+
+	doc.descendants((node, pos) => {
+		if (node.type.name === "footnoteReference") references.push({ node, pos });
+		if (node.type.name === "footnoteDefinition") definitions.push({ node, pos });
+	});
+
+	for (const { node } of [...references, ...definitions]) {
+		const label = node.attrs.label as string;
+		if (!numbers.has(label)) numbers.set(label, numbers.size + 1);
+	}
+
+	const defined = new Set(definitions.map(({ node }) => node.attrs.label as string));
+	const decorations = [...references, ...definitions].map(({ node, pos }) => {
+		const label = node.attrs.label as string;
+		const missing = node.type.name === "footnoteReference" && !defined.has(label);
+		const number = numbers.get(label)!;
+		return Decoration.node(
+			pos,
+			pos + node.nodeSize,
+			{ "data-number": String(number), class: missing ? "md-footnote-missing" : "" },
+			{ footnoteNumber: number }
+		);
+	});
+
+	return { numbers, decorations: DecorationSet.create(doc, decorations) };
+}
+
+/**
+ * Find the definition for a footnote id
+ */
+export function findFootnoteDefinition(
+	doc: ProseMirrorNode,
+	label: string
+): { node: ProseMirrorNode; pos: number } | null {
+	let found: { node: ProseMirrorNode; pos: number } | null = null;
+
+	doc.descendants((node, pos) => {
+		if (found) return false;
+		if (node.type.name === "footnoteDefinition" && node.attrs.label === label) {
+			found = { node, pos };
+			return false;
+		}
+		return true;
+	});
+
+	return found;
+}
+
+/**
+ * Find the positions of every reference to a footnote id
+ */
+export function findFootnoteReferences(doc: ProseMirrorNode, label: string): number[] {
+	const positions: number[] = [];
+
+	doc.descendants((node, pos) => {
+		if (node.type.name === "footnoteReference" && node.attrs.label === label) positions.push(pos);
+	});
+
+	return positions;
+}
+
+/**
+ * Read the display number from the numbering decoration
+ */
+function numberFromDecorations(decorations: readonly Decoration[]): string {
+	const number = decorations.find((decoration) => decoration.spec.footnoteNumber)?.spec.footnoteNumber;
+	return number ? String(number) : "?";
+}
+
+/**
+ * Footnote reference, shown as its number
+ */
+export const FootnoteReference = Node.create({
+	name: "footnoteReference",
+	group: "inline",
+	inline: true,
+	atom: true,
+	selectable: true,
+
+	addAttributes() {
+		return {
+			label: { default: "1", rendered: false },
+		};
+	},
+
+	parseHTML() {
+		return [
+			{
+				tag: "sup[data-footnote-ref]",
+				getAttrs: (element) => ({ label: (element as HTMLElement).dataset.footnoteRef ?? "1" }),
+			},
+		];
+	},
+
+	renderHTML({ node }) {
+		return ["sup", { "data-footnote-ref": node.attrs.label, class: "md-footnote-ref" }, `[${node.attrs.label}]`];
+	},
+
+	markdownTokenizer: {
+		name: "footnoteReference",
+		level: "inline",
+		start: (src: string) => src.indexOf("[^"),
+		tokenize: (src: string) => {
+			const match = FOOTNOTE_REFERENCE.exec(src);
+			if (!match) return undefined;
+			return { type: "footnoteReference", raw: match[0], label: match[1]! } satisfies FootnoteReferenceToken;
+		},
+	},
+
+	parseMarkdown: (token: MarkdownToken) => ({
+		type: "footnoteReference",
+		attrs: { label: (token as FootnoteReferenceToken).label },
+	}),
+
+	renderMarkdown: (node: JSONContent) => `[^${node.attrs?.label ?? "1"}]`,
+
+	addCommands() {
+		return {
+			insertFootnote:
+				() =>
+				({ state, tr, dispatch }) => {
+					const definitionType = state.schema.nodes.footnoteDefinition;
+					const paragraphType = state.schema.nodes.paragraph;
+					if (!definitionType || !paragraphType) return false;
+
+					const used = new Set<string>();
+					state.doc.descendants((node) => {
+						if (node.type === this.type || node.type === definitionType) used.add(node.attrs.label as string);
+					});
+					let next = 1;
+					while (used.has(String(next))) next++;
+					const label = String(next);
+
+					if (dispatch) {
+						tr.replaceSelectionWith(this.type.create({ label }), false);
+						const end = tr.doc.content.size;
+						tr.insert(end, definitionType.create({ label }, paragraphType.create()));
+						tr.setSelection(TextSelection.create(tr.doc, end + 2)).scrollIntoView();
+					}
+					return true;
+				},
+		};
+	},
+
+	addNodeView() {
+		return ({ node, decorations }) => {
+			const dom = document.createElement("sup");
+			dom.className = "md-footnote-ref";
+			dom.dataset.footnoteRef = node.attrs.label as string;
+			dom.textContent = numberFromDecorations(decorations);
+
+			return {
+				dom,
+				update: (updated: ProseMirrorNode, updatedDecorations: readonly Decoration[]) => {
+					if (updated.type !== node.type) return false;
+					dom.dataset.footnoteRef = updated.attrs.label as string;
+					dom.textContent = numberFromDecorations(updatedDecorations);
+					return true;
+				},
+				ignoreMutation: () => true,
+			};
+		};
+	},
+
+	addProseMirrorPlugins() {
+		return [
+			new Plugin<FootnoteState>({
+				key: footnoteKey,
+				state: {
+					init: (_config, state) => computeFootnoteState(state.doc),
+					apply: (tr, prev) => (tr.docChanged ? computeFootnoteState(tr.doc) : prev),
+				},
+				props: {
+					decorations: (state) => footnoteKey.getState(state)?.decorations,
+				},
+			}),
+		];
+	},
+});
+
+/**
+ * Footnote definition, kept where it is written in the document
+ */
+export const FootnoteDefinition = Node.create({
+	name: "footnoteDefinition",
+	group: "block",
+	content: "block+",
+	defining: true,
+	isolating: true,
+
+	addAttributes() {
+		return {
+			label: { default: "1", rendered: false },
+			/** Written directly under the previous definition, without a blank line */
+			tight: { default: false, rendered: false },
+		};
+	},
+
+	parseHTML() {
+		return [
+			{
+				tag: "div[data-footnote-def]",
+				contentElement: ".md-footnote-content",
+				getAttrs: (element) => ({ label: (element as HTMLElement).dataset.footnoteDef ?? "1" }),
+			},
+		];
+	},
+
+	renderHTML({ node }) {
+		return [
+			"div",
+			{ "data-footnote-def": node.attrs.label, class: "md-footnote-def" },
+			["span", { class: "md-footnote-label", contenteditable: "false" }, `${node.attrs.label}.`],
+			["div", { class: "md-footnote-content" }, 0],
+		];
+	},
+
+	markdownTokenizer: {
+		name: "footnoteDefinition",
+		level: "block",
+		start: (src: string) => /^\[\^[^\]\s]+\]:/m.exec(src)?.index ?? -1,
+		tokenize: (src: string, tokens: MarkdownToken[], lexer) => {
+			const match = FOOTNOTE_DEFINITION.exec(src);
+			if (!match) return undefined;
+
+			const previous = tokens[tokens.length - 1];
+			const tight = previous?.type === "footnoteDefinition" && !/\n\n$/.test(previous.raw ?? "");
+
+			// Continuation lines are indented by up to four spaces under the id
+			const body = match[2]!.replace(/^(?: {1,4}|\t)/gm, "");
+
+			return {
+				type: "footnoteDefinition",
+				raw: match[0],
+				label: match[1]!,
+				tight,
+				tokens: lexer.blockTokens(body),
+			} satisfies FootnoteDefinitionToken;
+		},
+	},
+
+	parseMarkdown: (token: MarkdownToken, helpers) => {
+		const { label, tight } = token as FootnoteDefinitionToken;
+		const content = helpers.parseChildren(token.tokens ?? []);
+		return {
+			type: "footnoteDefinition",
+			attrs: { label, tight },
+			content: content.length > 0 ? content : [{ type: "paragraph" }],
+		};
+	},
+
+	renderMarkdown: (node: JSONContent, h) => {
+		const content = node.content ?? [];
+		const isEmpty = content.length === 1 && content[0]!.type === "paragraph" && !content[0]!.content?.length;
+		const body = isEmpty ? "" : h.renderChildren(content, "\n\n");
+		const indented = body
+			.split("\n")
+			.map((line, i) => (i === 0 || !line ? line : `    ${line}`))
+			.join("\n");
+
+		return `[^${node.attrs?.label ?? "1"}]:${indented ? ` ${indented}` : ""}`;
+	},
+
+	addNodeView() {
+		return ({ node, decorations }) => {
+			const dom = document.createElement("div");
+			dom.className = "md-footnote-def";
+			dom.dataset.footnoteDef = node.attrs.label as string;
+
+			const label = document.createElement("span");
+			label.className = "md-footnote-label";
+			label.contentEditable = "false";
+
+			const number = document.createElement("span");
+			number.className = "md-footnote-number";
+			number.textContent = `${numberFromDecorations(decorations)}.`;
+
+			const back = document.createElement("button");
+			back.type = "button";
+			back.className = "md-footnote-backref";
+			back.title = "Back to reference";
+			back.textContent = "↩";
+
+			label.append(number, back);
+
+			const content = document.createElement("div");
+			content.className = "md-footnote-content";
+
+			dom.append(label, content);
+
+			return {
+				dom,
+				contentDOM: content,
+				update: (updated: ProseMirrorNode, updatedDecorations: readonly Decoration[]) => {
+					if (updated.type !== node.type) return false;
+					dom.dataset.footnoteDef = updated.attrs.label as string;
+					number.textContent = `${numberFromDecorations(updatedDecorations)}.`;
+					return true;
+				},
+				stopEvent: (event: Event) => label.contains(event.target as globalThis.Node),
+				ignoreMutation: (mutation: { target: globalThis.Node; type: string }) =>
+					mutation.type !== "selection" && label.contains(mutation.target),
+			};
+		};
+	},
+});
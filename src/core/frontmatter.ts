@@ -0,0 +1,297 @@
+/**
+ * YAML front matter block at the top of a document
+ * @module core/frontmatter
+ */
+
+import { Node } from "@tiptap/core";
+import type { JSONContent, MarkdownRendererHelpers, MarkdownToken } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "prosemirror-model";
+import { NodeSelection } from "prosemirror-state";
+import { parseDocument } from "yaml";
+
+declare module "@tiptap/core" {
+	interface Commands<ReturnType> {
+		frontMatter: {
+			/** Add an empty front matter block at the top of the document, or select the existing one */
+			insertFrontMatter: () => ReturnType;
+		};
+	}
+}
+
+export interface FrontMatterError {
+	message: string;
+	/** 1-based line in the YAML, when the parser reports one */
+	line: number | null;
+}
+
+type FrontMatterToken = MarkdownToken & {
+	yaml: string | null;
+	openFence: string;
+	closeFence: string;
+	spacing: string;
+	trailingNewline: boolean;
+};
+
+/**
+ * Opening fence, optional body, closing fence (`---` or `...`), then any blank lines
+ * The fences and blank lines are kept as written so saving does not rewrite them.
+ */
+const FRONT_MATTER_PATTERN = /^(---[ \t]*)\n(?:([\s\S]*?)\n)?((?:---|\.\.\.)[ \t]*)(\n|$)((?:[ \t]*\n)*)/;
+
+/**
+ * Check front matter YAML, returning the first error
+ */
+export function validateFrontMatter(yaml: string): FrontMatterError | null {
+	const error = parseDocument(yaml).errors[0];
+	if (!error) return null;
+
+	return {
+		message: error.message.split("\n")[0]!.replace(/ at line \d+, column \d+:?$/, ""),
+		line: error.linePos?.[0].line ?? null,
+	};
+}
+
+/**
+ * Summarize front matter for the collapsed block, e.g. "title, tags, date"
+ */
+function summarizeFrontMatter(yaml: string): string {
+	const keys = yaml
+		.split("\n")
+		.map((line) => /^([^\s#:][^:]*):/.exec(line)?.[1]?.trim())
+		.filter((key): key is string => !!key);
+
+	return keys.length > 0 ? keys.join(", ") : "empty";
+}
+
+/**
+ * Node view with a collapsible YAML editor
+ */
+function createFrontMatterView(
+	initialNode: ProseMirrorNode,
+	getPos: () => number | undefined,
+	updateContent: (pos: number, content: string) => void
+) {
+	let node = initialNode;
+
+	const dom = document.createElement("div");
+	dom.className = "md-front-matter collapsed";
+	dom.contentEditable = "false";
+
+	const header = document.createElement("button");
+	header.type = "button";
+	header.className = "md-front-matter-header";
+
+	const label = document.createElement("span");
+	label.className = "md-front-matter-label";
+	label.textContent = "Front matter";
+
+	const summary = document.createElement("span");
+	summary.className = "md-front-matter-summary";
+
+	header.append(label, summary);
+
+	const textarea = document.createElement("textarea");
+	textarea.className = "md-front-matter-input";
+	textarea.spellcheck = false;
+	textarea.setAttribute("aria-label", "Front matter YAML");
+
+	const errorEl = document.createElement("div");
+	errorEl.className = "md-front-matter-error";
+
+	dom.append(header, textarea, errorEl);
+
+	const resize = () => {
+		textarea.rows = Math.max(2, textarea.value.split("\n").length);
+	};
+
+	const render = () => {
+		const content = (node.attrs.content as string | null) ?? "";
+		if (textarea.value !== content) textarea.value = content;
+		resize();
+
+		const error = validateFrontMatter(content);
+		dom.classList.toggle("has-error", !!error);
+		errorEl.textContent = error ? `${error.line ? `Line ${error.line}: ` : ""}${error.message}` : "";
+		summary.textContent = error ? "invalid YAML" : summarizeFrontMatter(content);
+	};
+
+	header.addEventListener("click", () => {
+		const collapsed = dom.classList.toggle("collapsed");
+		if (!collapsed) textarea.focus();
+	});
+
+	textarea.addEventListener("input", () => {
+		const pos = getPos();
+		if (pos !== undefined) updateContent(pos, textarea.value);
+		resize();
+	});
+
+	textarea.addEventListener("keydown", (e) => {
+		// YAML does not allow tabs for indentation
+		if (e.key === "Tab" && !e.shiftKey) {
+			e.preventDefault();
+			textarea.setRangeText("  ", textarea.selectionStart, textarea.selectionEnd, "end");
+			textarea.dispatchEvent(new Event("input"));
+		}
+	});
+
+	render();
+
+	return {
+		dom,
+		update: (updated: ProseMirrorNode) => {
+			if (updated.type !== node.type) return false;
+			node = updated;
+			render();
+			return true;
+		},
+		// The block handles its own clicks and typing
+		stopEvent: () => true,
+		ignoreMutation: () => true,
+		selectNode: () => {
+			dom.classList.add("ProseMirror-selectednode");
+			dom.classList.remove("collapsed");
+		},
+		deselectNode: () => dom.classList.remove("ProseMirror-selectednode"),
+	};
+}
+
+/**
+ * Front matter node, only allowed as the first child of the document
+ */
+export const FrontMatter = Node.create({
+	name: "frontMatter",
+	atom: true,
+	selectable: true,
+	draggable: false,
+
+	addAttributes() {
+		return {
+			/** The YAML between the fences, null when there is no line between them */
+			content: { default: "", rendered: false },
+			openFence: { default: "---", rendered: false },
+			closeFence: { default: "---", rendered: false },
+			/** Blank lines written between the closing fence and the document */
+			spacing: { default: "\n", rendered: false },
+			/** False when the file ends right at the closing fence */
+			trailingNewline: { default: true, rendered: false },
+		};
+	},
+
+	parseHTML() {
+		return [
+			{
+				tag: 'pre[data-type="front-matter"]',
+				getAttrs: (element) => ({ content: (element as HTMLElement).textContent ?? "" }),
+			},
+		];
+	},
+
+	renderHTML({ node }) {
+		return ["pre", { "data-type": "front-matter" }, node.attrs.content ?? ""];
+	},
+
+	markdownTokenizer: {
+		name: "frontMatter",
+		level: "block",
+		start: (src: string) => (src.startsWith("---") ? 0 : -1),
+		tokenize: (src: string, tokens: MarkdownToken[]) => {
+			// Front matter only counts as the very first thing in the file
+			if (tokens.length > 0) return undefined;
+
+			const match = FRONT_MATTER_PATTERN.exec(src);
+			if (!match) return undefined;
+
+			return {
+				type: "frontMatter",
+				raw: match[0],
+				yaml: match[2] ?? null,
+				openFence: match[1]!,
+				closeFence: match[3]!,
+				spacing: match[5]!,
+				trailingNewline: match[4] !== "",
+			} satisfies FrontMatterToken;
+		},
+	},
+
+	parseMarkdown: (token: MarkdownToken) => {
+		const { yaml, openFence, closeFence, spacing, trailingNewline } = token as FrontMatterToken;
+		return { type: "frontMatter", attrs: { content: yaml, openFence, closeFence, spacing, trailingNewline } };
+	},
+
+	renderMarkdown: (node: JSONContent) => {
+		const { content, openFence, closeFence } = node.attrs ?? {};
+		const body = content === null || content === undefined ? "" : `${content}\n`;
+		return `${openFence ?? "---"}\n${body}${closeFence ?? "---"}`;
+	},
+
+	addCommands() {
+		return {
+			insertFrontMatter:
+				() =>
+				({ state, tr, dispatch }) => {
+					if (dispatch) {
+						if (state.doc.firstChild?.type !== this.type) {
+							tr.insert(0, this.type.create({ content: "title: " }));
+						}
+						// Selecting the block expands it
+						tr.setSelection(NodeSelection.create(tr.doc, 0));
+					}
+					return true;
+				},
+		};
+	},
+
+	addNodeView() {
+		return ({ node, getPos, editor }) =>
+			createFrontMatterView(node, getPos, (pos, content) => {
+				const current = editor.state.doc.nodeAt(pos);
+				if (!current) return;
+				editor.view.dispatch(editor.state.tr.setNodeMarkup(pos, undefined, { ...current.attrs, content }));
+			});
+	},
+});
+
+function isEmptyParagraph(node: JSONContent | undefined): boolean {
+	return node?.type === "paragraph" && !node.content?.length;
+}
+
+/**
+ * Join top-level blocks with blank lines
+ * Blocks marked `tight` (footnote definitions written one per line) follow the
+ * previous block on the next line instead. The empty paragraph the editor keeps
+ * after a last heading, code block or definition is not written.
+ */
+function renderBlocks(nodes: JSONContent[], h: MarkdownRendererHelpers): string {
+	const blocks = nodes.length > 1 && isEmptyParagraph(nodes[nodes.length - 1]) ? nodes.slice(0, -1) : nodes;
+
+	return blocks
+		.map((node, i) => `${i === 0 ? "" : node.attrs?.tight ? "\n" : "\n\n"}${h.renderChildren([node])}`)
+		.join("");
+}
+
+/**
+ * Document node that allows front matter before the first block
+ * Front matter is followed by the blank lines it had when parsed rather than
+ * the usual block separator, so files round-trip unchanged.
+ */
+export const FrontMatterDocument = Node.create({
+	name: "doc",
+	topNode: true,
+	content: "frontMatter? block+",
+
+	renderMarkdown: (node, h) => {
+		const [first, ...rest] = node.content ?? [];
+		if (!first) return "";
+		if (first.type !== "frontMatter") return renderBlocks(node.content!, h);
+
+		// The editor always keeps a block after the front matter, even for a file without a body
+		const body = rest.length === 1 && isEmptyParagraph(rest[0]) ? "" : renderBlocks(rest, h);
+		const { spacing = "\n", trailingNewline = true } = first.attrs ?? {};
+
+		// A file that ended at the closing fence still needs a line break once it has a body
+		const lineBreak = trailingNewline || body ? "\n" : "";
+
+		return `${h.renderChildren([first])}${lineBreak}${spacing}${body}`;
+	},
+});
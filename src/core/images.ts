@@ -0,0 +1,387 @@
+/**
+ * Images with alt text, width and caption
+ * Pasted and dropped images are stored by the `storeImage` option: in the
+ * browser's IndexedDB by default, or next to the file being edited.
+ * @module core/images
+ */
+
+import { Node } from "@tiptap/core";
+import type { Editor, JSONContent, MarkdownToken } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "prosemirror-model";
+import { Plugin } from "prosemirror-state";
+import { imageStorage } from "./storage";
+
+declare module "@tiptap/core" {
+	interface Commands<ReturnType> {
+		image: {
+			/** Insert image files at a position (the selection by default) and store them */
+			insertImages: (files: File[], pos?: number) => ReturnType;
+		};
+	}
+}
+
+export interface ImageOptions {
+	/** Store an image file and return the src to reference it by */
+	storeImage: (file: File) => Promise<string>;
+}
+
+type ImageToken = MarkdownToken & { href: string; text: string; title: string | null; width?: number };
+
+/** Scheme of images stored in IndexedDB, e.g. `blankmd-image:lx2k3-a8f0c1` */
+export const LOCAL_IMAGE_SCHEME = "blankmd-image:";
+
+const MIN_IMAGE_WIDTH = 48;
+
+/** `![alt](src "title"){width=300}`; images without a width are left to the standard tokenizer */
+const IMAGE_WITH_WIDTH =
+	/^!\[((?:\\.|[^\\\]])*)\]\(\s*(<[^<>\n]*>|[^\s()<>]+)(?:\s+"((?:\\.|[^"\\])*)")?\s*\)\{\s*width=(\d+)(?:px)?\s*\}/;
+
+/** Object URLs of stored images, created once per id */
+const resolvedSources = new Map<string, Promise<string>>();
+
+/**
+ * Store an image in IndexedDB, embedding it as a data URL when IndexedDB is unavailable
+ */
+export async function storeLocalImage(file: File): Promise<string> {
+	if (imageStorage.isAvailable()) {
+		return `${LOCAL_IMAGE_SCHEME}${await imageStorage.save(file)}`;
+	}
+
+	return new Promise((resolve, reject) => {
+		const reader = new FileReader();
+		reader.onload = () => resolve(reader.result as string);
+		reader.onerror = () => reject(reader.error);
+		reader.readAsDataURL(file);
+	});
+}
+
+/**
+ * Turn an image src into a URL the browser can load
+ */
+export function resolveImageSrc(src: string): Promise<string> {
+	if (!src.startsWith(LOCAL_IMAGE_SCHEME)) return Promise.resolve(src);
+
+	let resolved = resolvedSources.get(src);
+	if (!resolved) {
+		resolved = imageStorage.load(src.slice(LOCAL_IMAGE_SCHEME.length)).then((blob) => {
+			if (!blob) throw new Error(`Image not found: ${src}`);
+			return URL.createObjectURL(blob);
+		});
+		resolvedSources.set(src, resolved);
+	}
+	return resolved;
+}
+
+/**
+ * Ask the user to choose image files
+ */
+export function pickImageFiles(): Promise<File[]> {
+	return new Promise((resolve) => {
+		const input = document.createElement("input");
+		input.type = "file";
+		input.accept = "image/*";
+		input.multiple = true;
+		input.addEventListener("change", () => resolve(Array.from(input.files ?? [])));
+		input.addEventListener("cancel", () => resolve([]));
+		input.click();
+	});
+}
+
+/**
+ * Get the image files from a paste or drop
+ */
+function getImageFiles(data: DataTransfer | null): File[] {
+	return Array.from(data?.files ?? []).filter((file) => file.type.startsWith("image/"));
+}
+
+function escapeMarkdown(text: string, characters: RegExp): string {
+	return text.replace(characters, "\\$&");
+}
+
+function unescapeMarkdown(text: string): string {
+	return text.replace(/\\([!-/:-@[-`{-~])/g, "$1");
+}
+
+/**
+ * Point images at their stored src, or remove them when storing failed
+ */
+function replacePreview(editor: Editor, preview: string, src: string | null): void {
+	const positions: number[] = [];
+	editor.state.doc.descendants((node, pos) => {
+		if (node.type.name === "image" && node.attrs.src === preview) positions.push(pos);
+	});
+	if (positions.length === 0) return;
+
+	const { tr } = editor.state;
+	for (const pos of positions.reverse()) {
+		if (src) {
+			tr.setNodeAttribute(pos, "src", src);
+		} else {
+			tr.delete(pos, pos + 1);
+		}
+	}
+	editor.view.dispatch(tr);
+	URL.revokeObjectURL(preview);
+}
+
+/**
+ * Node view with a resize handle and alt text and caption fields when selected
+ */
+function createImageView(editor: Editor, initialNode: ProseMirrorNode, getPos: () => number | undefined) {
+	let node = initialNode;
+
+	const dom = document.createElement("span");
+	dom.className = "md-image";
+	dom.contentEditable = "false";
+
+	const frame = document.createElement("span");
+	frame.className = "md-image-frame";
+
+	const img = document.createElement("img");
+	img.draggable = false;
+
+	const handle = document.createElement("span");
+	handle.className = "md-image-resize";
+	handle.title = "Drag to resize, double-click to reset";
+
+	frame.append(img, handle);
+
+	const caption = document.createElement("span");
+	caption.className = "md-image-caption";
+
+	const fields = document.createElement("span");
+	fields.className = "md-image-fields";
+
+	const createField = (placeholder: string, attr: "alt" | "title") => {
+		const input = document.createElement("input");
+		input.type = "text";
+		input.placeholder = placeholder;
+		input.setAttribute("aria-label", placeholder);
+		input.addEventListener("input", () => {
+			const pos = getPos();
+			if (pos === undefined) return;
+			const value = attr === "title" ? input.value || null : input.value;
+			editor.view.dispatch(editor.state.tr.setNodeAttribute(pos, attr, value));
+		});
+		input.addEventListener("keydown", (e) => {
+			if (e.key === "Enter" || e.key === "Escape") {
+				e.preventDefault();
+				editor.commands.focus();
+			}
+		});
+		return input;
+	};
+
+	const altInput = createField("Alt text", "alt");
+	const captionInput = createField("Caption", "title");
+	fields.append(altInput, captionInput);
+
+	dom.append(frame, caption, fields);
+
+	let loadedSrc: string | null = null;
+
+	const render = () => {
+		const src = node.attrs.src as string;
+		if (src !== loadedSrc) {
+			loadedSrc = src;
+			dom.classList.remove("has-error");
+			resolveImageSrc(src)
+				.then((url) => {
+					if (loadedSrc === src) img.src = url;
+				})
+				.catch(() => dom.classList.add("has-error"));
+		}
+
+		img.alt = node.attrs.alt as string;
+		img.style.width = node.attrs.width ? `${node.attrs.width}px` : "";
+		caption.textContent = (node.attrs.title as string | null) ?? "";
+
+		// Leave the fields alone while they are typed in
+		if (document.activeElement !== altInput) altInput.value = node.attrs.alt as string;
+		if (document.activeElement !== captionInput) captionInput.value = (node.attrs.title as string | null) ?? "";
+	};
+
+	img.addEventListener("error", () => dom.classList.add("has-error"));
+	img.addEventListener("load", () => dom.classList.remove("has-error"));
+
+	handle.addEventListener("pointerdown", (e) => {
+		e.preventDefault();
+		handle.setPointerCapture(e.pointerId);
+
+		const startX = e.clientX;
+		const startWidth = img.getBoundingClientRect().width;
+		const maxWidth = editor.view.dom.clientWidth;
+		let width = startWidth;
+
+		const onMove = (move: PointerEvent) => {
+			width = Math.round(Math.min(maxWidth, Math.max(MIN_IMAGE_WIDTH, startWidth + move.clientX - startX)));
+			img.style.width = `${width}px`;
+		};
+
+		const onUp = () => {
+			handle.removeEventListener("pointermove", onMove);
+			handle.removeEventListener("pointerup", onUp);
+			const pos = getPos();
+			if (pos !== undefined && width !== startWidth) {
+				editor.view.dispatch(editor.state.tr.setNodeAttribute(pos, "width", width));
+			}
+		};
+
+		handle.addEventListener("pointermove", onMove);
+		handle.addEventListener("pointerup", onUp);
+	});
+
+	handle.addEventListener("dblclick", () => {
+		const pos = getPos();
+		if (pos !== undefined) editor.view.dispatch(editor.state.tr.setNodeAttribute(pos, "width", null));
+	});
+
+	render();
+
+	return {
+		dom,
+		update: (updated: ProseMirrorNode) => {
+			if (updated.type !== node.type) return false;
+			node = updated;
+			render();
+			return true;
+		},
+		stopEvent: (event: Event) => fields.contains(event.target as globalThis.Node) || event.target === handle,
+		ignoreMutation: () => true,
+		selectNode: () => dom.classList.add("ProseMirror-selectednode"),
+		deselectNode: () => dom.classList.remove("ProseMirror-selectednode"),
+	};
+}
+
+/**
+ * Inline image node
+ */
+export const Image = Node.create<ImageOptions>({
+	name: "image",
+	group: "inline",
+	inline: true,
+	atom: true,
+	selectable: true,
+	draggable: true,
+
+	markdownTokenName: "image",
+
+	addOptions() {
+		return {
+			storeImage: storeLocalImage,
+		};
+	},
+
+	addAttributes() {
+		return {
+			src: { default: "" },
+			alt: { default: "" },
+			/** Shown as the caption */
+			title: { default: null },
+			width: {
+				default: null,
+				parseHTML: (element) => Number(element.getAttribute("width")) || null,
+			},
+		};
+	},
+
+	parseHTML() {
+		return [{ tag: "img[src]" }];
+	},
+
+	renderHTML({ HTMLAttributes }) {
+		return ["img", HTMLAttributes];
+	},
+
+	markdownTokenizer: {
+		name: "imageWithWidth",
+		level: "inline",
+		start: (src: string) => src.indexOf("!["),
+		tokenize: (src: string) => {
+			const match = IMAGE_WITH_WIDTH.exec(src);
+			if (!match) return undefined;
+
+			return {
+				type: "image",
+				raw: match[0],
+				href: match[2]!.replace(/^<(.*)>$/, "$1"),
+				text: unescapeMarkdown(match[1]!),
+				title: match[3] === undefined ? null : unescapeMarkdown(match[3]),
+				width: Number(match[4]),
+			} satisfies ImageToken;
+		},
+	},
+
+	parseMarkdown: (token: MarkdownToken) => {
+		const { href, text, title, width } = token as ImageToken;
+		return { type: "image", attrs: { src: href, alt: text ?? "", title: title || null, width: width ?? null } };
+	},
+
+	renderMarkdown: (node: JSONContent) => {
+		const { src = "", alt = "", title, width } = node.attrs ?? {};
+		const href = /[\s()<>]/.test(src) ? `<${src}>` : src;
+		const titlePart = title ? ` "${escapeMarkdown(title, /["\\]/g)}"` : "";
+		const widthPart = width ? `{width=${width}}` : "";
+		return `![${escapeMarkdown(alt, /[[\]\\]/g)}](${href}${titlePart})${widthPart}`;
+	},
+
+	addCommands() {
+		return {
+			insertImages:
+				(files, pos) =>
+				({ state, tr, dispatch }) => {
+					const images = files.filter((file) => file.type.startsWith("image/"));
+					if (images.length === 0) return false;
+
+					if (dispatch) {
+						// Show the files straight away and swap in the stored src once each is saved
+						const previews = images.map((file) => ({ file, src: URL.createObjectURL(file) }));
+						const nodes = previews.map(({ file, src }) =>
+							this.type.create({ src, alt: file.name.replace(/\.[^.]+$/, "") })
+						);
+
+						const { from, to } = state.selection;
+						tr.replaceWith(pos ?? from, pos ?? to, nodes);
+
+						for (const preview of previews) {
+							this.options
+								.storeImage(preview.file)
+								.then((src) => replacePreview(this.editor, preview.src, src))
+								.catch((err) => {
+									console.error("Failed to store image:", err);
+									replacePreview(this.editor, preview.src, null);
+								});
+						}
+					}
+					return true;
+				},
+		};
+	},
+
+	addNodeView() {
+		return ({ editor, node, getPos }) => createImageView(editor, node, getPos);
+	},
+
+	addProseMirrorPlugins() {
+		const { editor } = this;
+
+		return [
+			new Plugin({
+				props: {
+					handlePaste: (_view, event) => {
+						const files = getImageFiles(event.clipboardData);
+						return files.length > 0 && editor.commands.insertImages(files);
+					},
+					handleDrop: (view, event) => {
+						const files = getImageFiles(event.dataTransfer);
+						if (files.length === 0) return false;
+
+						event.preventDefault();
+						const pos = view.posAtCoords({ left: event.clientX, top: event.clientY })?.pos;
+						return editor.commands.insertImages(files, pos);
+					},
+				},
+			}),
+		];
+	},
+});
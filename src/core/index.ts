@@ -3,14 +3,140 @@
  * @module core
  */
 
-export { createEditor, getFileState, reparseAsMarkdown } from "./editor";
-export type { CreateEditorOptions } from "./editor";
+export {
+	createEditor,
+	getFileState,
+	onFileStateChange,
+	reparseAsMarkdown,
+	loadFileContent,
+	openFile,
+	saveFile,
+	saveFileAs,
+} from "./editor";
+export type { CreateEditorOptions, EditorFileState, ReparseOptions } from "./editor";
+
+export {
+	PasteMarkdown,
+	SafeLink,
+	SlashCommands,
+	isSafeLinkUrl,
+	looksLikeMarkdown,
+	filterSlashCommands,
+	getSlashMenuItems,
+	runSlashCommand,
+	selectSlashMenuItem,
+	dismissSlashMenu,
+	slashMenuKey,
+} from "./extensions";
+export type { SlashMenuState } from "./extensions";
+
+export { Search, getSearchState, searchKey, DEFAULT_SEARCH_OPTIONS } from "./search";
+export type { SearchOptions, SearchMatch, SearchState } from "./search";
+
+export { getOutline, getCurrentHeading, moveSection } from "./outline";
+export type { OutlineHeading } from "./outline";
+
+export { getTableExtensions, MarkdownTable } from "./table";
+export type { ColumnAlignment } from "./table";
+
+export { FrontMatter, FrontMatterDocument, validateFrontMatter } from "./frontmatter";
+export type { FrontMatterError } from "./frontmatter";
+
+export { InlineMath, BlockMath, renderMath } from "./math";
+
+export { MermaidCodeBlock, renderDiagram, setDiagramTheme } from "./mermaid";
+
+export {
+	FootnoteReference,
+	FootnoteDefinition,
+	footnoteKey,
+	findFootnoteDefinition,
+	findFootnoteReferences,
+} from "./footnotes";
+export type { FootnoteState } from "./footnotes";
 
-export { PasteMarkdown, looksLikeMarkdown } from "./extensions";
+export { Image, LOCAL_IMAGE_SCHEME, storeLocalImage, resolveImageSrc, pickImageFiles } from "./images";
+export type { ImageOptions } from "./images";
+
+export {
+	registerCommands,
+	getCommands,
+	getCommand,
+	getCommandLabel,
+	runCommand,
+	fuzzyMatch,
+	searchCommands,
+} from "./commands";
+export type { CommandMatch } from "./commands";
+
+export {
+	initKeybindings,
+	normalizeChord,
+	chordFromEvent,
+	isAssignableChord,
+	getDefaultKeybinding,
+	getKeybinding,
+	getKeybindings,
+	isKeybindingCustomized,
+	setKeybinding,
+	resetKeybindings,
+	onKeybindingsChange,
+	withKeybinding,
+} from "./keybindings";
+
+export {
+	listSnapshots,
+	getSnapshot,
+	takeSnapshot,
+	restoreSnapshot,
+	deleteSnapshot,
+} from "./snapshots";
+export type { SnapshotOptions } from "./snapshots";
+
+export { diffLines, acceptHunk, revertHunk, loadDiffBase } from "./diff";
+export type { DiffSource, DiffLine, DiffLineType, DiffHunk, LineDiff } from "./diff";
+
+export {
+	getCurrentSettingsBundle,
+	serializeSettingsBundle,
+	parseSettingsBundle,
+	isSameSettingsBundle,
+	listSettingsProfiles,
+	createSettingsProfile,
+	updateSettingsProfile,
+	deleteSettingsProfile,
+	onSettingsProfilesChange,
+	SETTINGS_FILE_FORMAT,
+} from "./settings-profiles";
+export type { SettingsBundleResult } from "./settings-profiles";
+
+export {
+	listDocuments,
+	getActiveDocumentId,
+	openDocument,
+	createNewDocument,
+	duplicateDocument,
+	renameDocument,
+	deleteDocument,
+	getDocumentTitle,
+	onActiveDocumentChange,
+} from "./documents";
 
 export {
 	storage,
+	initStorage,
+	versionedStorage,
+	registerMigration,
 	settingsStorage,
+	customThemeStorage,
+	settingsProfileStorage,
 	toolbarStorage,
-	contentStorage
+	outlineStorage,
+	viewModeStorage,
+	recentCommandStorage,
+	keybindingStorage,
+	contentStorage,
+	documentStorage,
+	snapshotStorage,
+	imageStorage,
 } from "./storage";
@@ -0,0 +1,199 @@
+/**
+ * IndexedDB storage adapter
+ * @module core/indexeddb
+ */
+
+import type { StorageAdapter } from "../types";
+import { STORAGE_PREFIX } from "../config";
+
+const DB_NAME = "blankmd";
+const DB_VERSION = 2;
+const STORE_NAME = "kv";
+/** Image bytes, kept out of the kv store so they are not all read into memory */
+const IMAGE_STORE_NAME = "images";
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+/**
+ * Resolve once a transaction has been committed
+ */
+function promisifyTransaction(tx: IDBTransaction): Promise<void> {
+	return new Promise((resolve, reject) => {
+		tx.oncomplete = () => resolve();
+		tx.onerror = () => reject(tx.error);
+		tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+	});
+}
+
+/**
+ * Open (and create on first use) the blankmd database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+	const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+	request.onupgradeneeded = () => {
+		for (const name of [STORE_NAME, IMAGE_STORE_NAME]) {
+			if (!request.result.objectStoreNames.contains(name)) {
+				request.result.createObjectStore(name);
+			}
+		}
+	};
+
+	return promisifyRequest(request);
+}
+
+let imageDatabase: Promise<IDBDatabase> | null = null;
+
+/**
+ * Store image bytes under an id
+ */
+export async function putImage(id: string, blob: Blob): Promise<void> {
+	imageDatabase ??= openDatabase();
+	const tx = (await imageDatabase).transaction(IMAGE_STORE_NAME, "readwrite");
+	tx.objectStore(IMAGE_STORE_NAME).put(blob, id);
+	await promisifyTransaction(tx);
+}
+
+/**
+ * Read stored image bytes, or null if there is no image with the id
+ */
+export async function getImage(id: string): Promise<Blob | null> {
+	imageDatabase ??= openDatabase();
+	const tx = (await imageDatabase).transaction(IMAGE_STORE_NAME, "readonly");
+	const blob = await promisifyRequest<Blob | undefined>(tx.objectStore(IMAGE_STORE_NAME).get(id));
+	return blob ?? null;
+}
+
+/**
+ * IndexedDB adapter implementation
+ *
+ * All entries are read into memory when the database is opened, so the
+ * synchronous methods answer from the cache while writes are persisted in
+ * the background. Callers that need to know a write landed use the async
+ * variants.
+ */
+export class IndexedDBAdapter implements StorageAdapter {
+	private constructor(
+		private readonly db: IDBDatabase,
+		private readonly cache: Map<string, unknown>
+	) { }
+
+	/**
+	 * Open the database and load every entry into the cache
+	 */
+	static async open(): Promise<IndexedDBAdapter> {
+		const db = await openDatabase();
+		const tx = db.transaction(STORE_NAME, "readonly");
+		const store = tx.objectStore(STORE_NAME);
+
+		const [keys, values] = await Promise.all([
+			promisifyRequest(store.getAllKeys()),
+			promisifyRequest(store.getAll()),
+		]);
+
+		const cache = new Map<string, unknown>();
+		keys.forEach((key, i) => cache.set(String(key), values[i]));
+
+		return new IndexedDBAdapter(db, cache);
+	}
+
+	get<T>(key: string): T | null {
+		const value = this.cache.get(key);
+		// Clone so callers cannot mutate the cache, matching localStorage semantics
+		return value === undefined ? null : (structuredClone(value) as T);
+	}
+
+	set<T>(key: string, value: T): void {
+		this.setAsync(key, value).catch((e) => {
+			console.warn("Failed to save to IndexedDB:", e);
+		});
+	}
+
+	remove(key: string): void {
+		this.removeAsync(key).catch(() => {
+			// Ignore
+		});
+	}
+
+	async getAsync<T>(key: string): Promise<T | null> {
+		return this.get<T>(key);
+	}
+
+	async setAsync<T>(key: string, value: T): Promise<void> {
+		this.cache.set(key, structuredClone(value));
+
+		const tx = this.db.transaction(STORE_NAME, "readwrite");
+		tx.objectStore(STORE_NAME).put(value, key);
+		await promisifyTransaction(tx);
+	}
+
+	async removeAsync(key: string): Promise<void> {
+		this.cache.delete(key);
+
+		const tx = this.db.transaction(STORE_NAME, "readwrite");
+		tx.objectStore(STORE_NAME).delete(key);
+		await promisifyTransaction(tx);
+	}
+
+	/**
+	 * Write several entries in a single transaction
+	 */
+	async setManyAsync(entries: Array<[string, unknown]>): Promise<void> {
+		const tx = this.db.transaction(STORE_NAME, "readwrite");
+		const store = tx.objectStore(STORE_NAME);
+
+		for (const [key, value] of entries) {
+			store.put(value, key);
+		}
+
+		await promisifyTransaction(tx);
+
+		for (const [key, value] of entries) {
+			this.cache.set(key, structuredClone(value));
+		}
+	}
+}
+
+/**
+ * Move `blankmd:*` keys from localStorage into IndexedDB
+ *
+ * Keys are only removed from localStorage after the IndexedDB transaction
+ * has committed, so an interrupted migration simply runs again on the next
+ * load. A key still present in localStorage was written after the last
+ * migration (for example while IndexedDB was unavailable), so it wins over
+ * the copy in IndexedDB.
+ */
+export async function migrateFromLocalStorage(adapter: IndexedDBAdapter): Promise<void> {
+	const entries: Array<[string, unknown]> = [];
+
+	for (let i = 0; i < localStorage.length; i++) {
+		const key = localStorage.key(i);
+		if (!key?.startsWith(STORAGE_PREFIX)) continue;
+
+		const raw = localStorage.getItem(key);
+		if (raw === null) continue;
+
+		try {
+			entries.push([key, JSON.parse(raw)]);
+		} catch {
+			// Keep values that were not written as JSON
+			entries.push([key, raw]);
+		}
+	}
+
+	if (entries.length === 0) return;
+
+	await adapter.setManyAsync(entries);
+
+	for (const [key] of entries) {
+		localStorage.removeItem(key);
+	}
+}
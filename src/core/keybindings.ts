@@ -0,0 +1,249 @@
+/**
+ * Keyboard shortcuts that run registered commands
+ * Each command brings its default chord from its `shortcut`. Users can rebind
+ * or remove it, and only the chords that differ from the defaults are stored.
+ * @module core/keybindings
+ */
+
+import type { Editor } from "@tiptap/core";
+import type { KeybindingOverrides } from "../types";
+import { getCommand, getCommands } from "./commands";
+import { keybindingStorage } from "./storage";
+import { isMac } from "../config";
+
+type KeybindingsListener = () => void;
+
+/** Modifier names in the order they are written */
+const MODIFIERS = ["Cmd", "Ctrl", "Alt", "Shift"] as const;
+
+type Modifier = (typeof MODIFIERS)[number];
+
+const MODIFIER_ALIASES: Record<string, Modifier> = {
+	cmd: "Cmd",
+	command: "Cmd",
+	meta: "Cmd",
+	mod: "Cmd",
+	ctrl: "Ctrl",
+	control: "Ctrl",
+	alt: "Alt",
+	option: "Alt",
+	opt: "Alt",
+	shift: "Shift",
+};
+
+/**
+ * Get the modifier a name stands for
+ * Ctrl is the shortcut modifier off macOS, so it is read as Cmd there and
+ * shortcuts work on every platform. On macOS Ctrl stays a modifier of its own,
+ * leaving its text editing keys (Ctrl+E, Ctrl+K) alone.
+ */
+function getModifier(name: string): Modifier | undefined {
+	const modifier = MODIFIER_ALIASES[name.toLowerCase()];
+	return modifier === "Ctrl" && !isMac() ? "Cmd" : modifier;
+}
+
+/** Keys named by their position, so Shift and Alt do not change the name */
+const CODE_KEYS: Record<string, string> = {
+	Slash: "/",
+	Backslash: "\\",
+	BracketLeft: "[",
+	BracketRight: "]",
+	Comma: ",",
+	Period: ".",
+	Semicolon: ";",
+	Quote: "'",
+	Backquote: "`",
+	Minus: "-",
+	Equal: "=",
+	Space: "Space",
+};
+
+const listeners = new Set<KeybindingsListener>();
+
+/** Stored overrides, read once storage is ready */
+let overrides: KeybindingOverrides | null = null;
+
+function getOverrides(): KeybindingOverrides {
+	overrides ??= keybindingStorage.load();
+	return overrides;
+}
+
+function saveOverrides(updated: KeybindingOverrides): void {
+	overrides = updated;
+	keybindingStorage.save(updated);
+	for (const listener of listeners) listener();
+}
+
+/**
+ * Write a chord in its canonical form, e.g. "shift+cmd+p" becomes "Cmd+Shift+P"
+ * Returns null when the chord has no key.
+ */
+export function normalizeChord(chord: string): string | null {
+	const modifiers = new Set<Modifier>();
+	let key: string | null = null;
+
+	for (const part of chord.trim().split(/\+(?=.)/)) {
+		const modifier = getModifier(part);
+		if (modifier) {
+			modifiers.add(modifier);
+		} else if (part) {
+			key = part.length === 1 ? part.toUpperCase() : part[0]!.toUpperCase() + part.slice(1);
+		}
+	}
+
+	if (!key) return null;
+	return [...MODIFIERS.filter((modifier) => modifiers.has(modifier)), key].join("+");
+}
+
+/**
+ * Get the chord for a key press, or null while only modifiers are held
+ */
+export function chordFromEvent(e: KeyboardEvent): string | null {
+	if (["Meta", "Control", "Alt", "Shift"].includes(e.key)) return null;
+
+	let key: string;
+	if (/^Key[A-Z]$/.test(e.code)) {
+		key = e.code.slice(3);
+	} else if (/^Digit\d$/.test(e.code)) {
+		key = e.code.slice(5);
+	} else if (CODE_KEYS[e.code]) {
+		key = CODE_KEYS[e.code]!;
+	} else if (e.key && e.key !== "Unidentified") {
+		key = e.key;
+	} else {
+		return null;
+	}
+
+	const modifiers: Modifier[] = [];
+	if (e.metaKey) modifiers.push("Cmd");
+	if (e.ctrlKey) modifiers.push("Ctrl");
+	if (e.altKey) modifiers.push("Alt");
+	if (e.shiftKey) modifiers.push("Shift");
+
+	return normalizeChord([...modifiers, key].join("+"));
+}
+
+/**
+ * Check whether a chord can be bound without getting in the way of typing
+ * It needs Cmd, Ctrl or Alt, unless it is a function key.
+ */
+export function isAssignableChord(chord: string): boolean {
+	return /^(Cmd|Ctrl|Alt)\+/.test(chord) || /(^|\+)F\d{1,2}$/.test(chord);
+}
+
+/**
+ * Get the default chord of a command
+ */
+export function getDefaultKeybinding(commandId: string): string | null {
+	const shortcut = getCommand(commandId)?.shortcut;
+	return shortcut ? normalizeChord(shortcut) : null;
+}
+
+/**
+ * Get the chord bound to a command, or null when it has none
+ */
+export function getKeybinding(commandId: string): string | null {
+	const stored = getOverrides();
+	return commandId in stored ? stored[commandId]! : getDefaultKeybinding(commandId);
+}
+
+/**
+ * Check whether the user changed a command's chord
+ */
+export function isKeybindingCustomized(commandId: string): boolean {
+	return commandId in getOverrides();
+}
+
+/**
+ * Get every bound chord with the commands it runs
+ * More than one command for a chord is a conflict; the first registered wins.
+ */
+export function getKeybindings(): Map<string, string[]> {
+	const bindings = new Map<string, string[]>();
+
+	for (const command of getCommands()) {
+		const chord = getKeybinding(command.id);
+		if (!chord) continue;
+		bindings.set(chord, [...(bindings.get(chord) ?? []), command.id]);
+	}
+
+	return bindings;
+}
+
+/**
+ * Bind a chord to a command, or remove its chord with null
+ */
+export function setKeybinding(commandId: string, chord: string | null): void {
+	const normalized = chord ? normalizeChord(chord) : null;
+	const { [commandId]: _previous, ...rest } = getOverrides();
+
+	saveOverrides(normalized === getDefaultKeybinding(commandId) ? rest : { ...rest, [commandId]: normalized });
+}
+
+/**
+ * Go back to the default chord of one command, or of every command
+ */
+export function resetKeybindings(commandId?: string): void {
+	if (commandId === undefined) {
+		saveOverrides({});
+		return;
+	}
+
+	const { [commandId]: _previous, ...rest } = getOverrides();
+	saveOverrides(rest);
+}
+
+/**
+ * Listen for changes to the bindings
+ */
+export function onKeybindingsChange(listener: KeybindingsListener): () => void {
+	listeners.add(listener);
+	return () => listeners.delete(listener);
+}
+
+/**
+ * Add the bound chord to a title, e.g. "Bold (Cmd+B)"
+ */
+export function withKeybinding(title: string, commandId: string): string {
+	const chord = getKeybinding(commandId);
+	return chord ? `${title} (${chord})` : title;
+}
+
+/**
+ * Run commands from their chords
+ * Listens in the capture phase so bound chords take over from the editor's
+ * built-in shortcuts.
+ */
+export function initKeybindings(editor: Editor): void {
+	document.addEventListener(
+		"keydown",
+		(e) => {
+			if (e.defaultPrevented || e.isComposing) return;
+
+			const chord = chordFromEvent(e);
+			if (!chord || !isAssignableChord(chord)) return;
+
+			const inEditor = editor.view.dom.contains(e.target as Node);
+			const command = (getKeybindings().get(chord) ?? [])
+				.map((id) => getCommand(id))
+				.find((candidate) => candidate && (!candidate.editorOnly || inEditor));
+
+			if (command) {
+				e.preventDefault();
+				e.stopPropagation();
+				command.action(editor);
+				return;
+			}
+
+			// A default chord moved to another key must not reach the editor's own keymap
+			const released = getCommands().some(
+				(candidate) => candidate.editorOnly && getDefaultKeybinding(candidate.id) === chord
+			);
+			if (released && inEditor) {
+				e.preventDefault();
+				e.stopPropagation();
+			}
+		},
+		true
+	);
+}
@@ -0,0 +1,333 @@
+/**
+ * LaTeX math nodes rendered with KaTeX
+ * @module core/math
+ */
+
+import { InputRule, Node } from "@tiptap/core";
+import type { Editor, JSONContent, MarkdownToken } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "prosemirror-model";
+import { TextSelection } from "prosemirror-state";
+import katex from "katex";
+
+declare module "@tiptap/core" {
+	interface Commands<ReturnType> {
+		math: {
+			/** Insert a math block, opening its source when it is empty */
+			insertBlockMath: (latex?: string) => ReturnType;
+			/** Insert inline math, opening its source when it is empty */
+			insertInlineMath: (latex?: string) => ReturnType;
+		};
+	}
+}
+
+type InlineMathToken = MarkdownToken & { latex: string; delimiter: "$" | "$$" };
+type BlockMathToken = MarkdownToken & { latex: string; multiline: boolean };
+
+/** `$$…$$` inside a paragraph, which may span lines */
+const INLINE_DISPLAY_MATH = /^\$\$((?:\\[\s\S]|[^\\$])+?)\$\$/;
+
+/**
+ * `$…$` with no space inside the dollars and no digit after the closing one,
+ * so prices like "$5 and $10" stay text
+ */
+const INLINE_MATH = /^\$(?!\s)((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)/;
+
+/** `$$` on its own lines around the formula, or a whole `$$…$$` line */
+const BLOCK_MATH = /^\$\$(?:[ \t]*\n([\s\S]+?)\n[ \t]*|([^\n]+?))\$\$[ \t]*(?:\n+|$)/;
+
+/** Typing `$x$` turns it into inline math */
+const INLINE_MATH_INPUT = /(?<![$\\\w])\$([^\s$](?:[^$\n]*[^\s$\\])?)\$$/;
+
+/** Typing `$$ ` at the start of an empty paragraph starts a math block */
+const BLOCK_MATH_INPUT = /^\$\$\s$/;
+
+/**
+ * Render LaTeX to HTML, showing errors in place of the formula
+ */
+export function renderMath(latex: string, displayMode: boolean): string {
+	return katex.renderToString(latex, { displayMode, throwOnError: false });
+}
+
+/**
+ * Node view that shows the rendered formula and swaps to its source on click
+ */
+function createMathView(
+	editor: Editor,
+	initialNode: ProseMirrorNode,
+	getPos: () => number | undefined,
+	inline: boolean
+) {
+	let node = initialNode;
+	let editing = false;
+
+	const dom = document.createElement(inline ? "span" : "div");
+	dom.className = `md-math ${inline ? "md-math-inline" : "md-math-block"}`;
+	dom.contentEditable = "false";
+
+	const rendered = document.createElement(inline ? "span" : "div");
+	rendered.className = "md-math-render";
+
+	const source = document.createElement(inline ? "input" : "textarea");
+	source.className = "md-math-source";
+	source.spellcheck = false;
+	source.setAttribute("aria-label", "LaTeX source");
+
+	dom.append(rendered, source);
+
+	const render = () => {
+		const latex = node.attrs.latex as string;
+		rendered.innerHTML = latex.trim() ? renderMath(latex, !inline) : "";
+		rendered.classList.toggle("is-empty", !latex.trim());
+		rendered.dataset.placeholder = inline ? "$" : "Empty formula";
+	};
+
+	const resize = () => {
+		if (source instanceof HTMLTextAreaElement) {
+			source.rows = Math.max(1, source.value.split("\n").length);
+		} else {
+			source.size = Math.max(1, source.value.length);
+		}
+	};
+
+	const startEditing = () => {
+		if (editing || !editor.isEditable) return;
+		editing = true;
+		dom.classList.add("editing");
+		source.value = node.attrs.latex as string;
+		resize();
+		source.focus();
+	};
+
+	// Leave source editing, saving the formula unless cancelled
+	const stopEditing = (save: boolean) => {
+		if (!editing) return;
+		editing = false;
+		dom.classList.remove("editing");
+
+		const pos = getPos();
+		if (pos === undefined) return;
+
+		const { tr } = editor.state;
+		if (save && !source.value.trim()) {
+			tr.delete(pos, pos + node.nodeSize);
+			tr.setSelection(TextSelection.near(tr.doc.resolve(pos)));
+		} else {
+			if (save && source.value !== node.attrs.latex) {
+				tr.setNodeMarkup(pos, undefined, { ...node.attrs, latex: source.value });
+			}
+			tr.setSelection(TextSelection.near(tr.doc.resolve(pos + node.nodeSize)));
+		}
+
+		editor.view.dispatch(tr);
+		editor.view.focus();
+	};
+
+	rendered.addEventListener("click", startEditing);
+	source.addEventListener("input", resize);
+	source.addEventListener("blur", () => stopEditing(true));
+	source.addEventListener("keydown", (e) => {
+		const event = e as KeyboardEvent;
+		if (event.key === "Escape") {
+			event.preventDefault();
+			stopEditing(false);
+		} else if (event.key === "Enter" && (inline || event.metaKey || event.ctrlKey)) {
+			// Enter saves inline math, blocks take newlines and save on Cmd/Ctrl+Enter
+			event.preventDefault();
+			stopEditing(true);
+		}
+	});
+
+	render();
+
+	// A new empty formula opens straight into its source
+	if (!(node.attrs.latex as string).trim()) {
+		requestAnimationFrame(startEditing);
+	}
+
+	return {
+		dom,
+		update: (updated: ProseMirrorNode) => {
+			if (updated.type !== node.type) return false;
+			node = updated;
+			render();
+			return true;
+		},
+		stopEvent: (event: Event) => editing && event.target === source,
+		ignoreMutation: () => true,
+		selectNode: () => dom.classList.add("ProseMirror-selectednode"),
+		deselectNode: () => dom.classList.remove("ProseMirror-selectednode"),
+	};
+}
+
+/**
+ * Inline `$…$` math
+ */
+export const InlineMath = Node.create({
+	name: "inlineMath",
+	group: "inline",
+	inline: true,
+	atom: true,
+	selectable: true,
+
+	addAttributes() {
+		return {
+			latex: { default: "", rendered: false },
+			/** `$` or `$$`, kept so the markdown is written back the same way */
+			delimiter: { default: "$", rendered: false },
+		};
+	},
+
+	parseHTML() {
+		return [
+			{
+				tag: 'span[data-type="inline-math"]',
+				getAttrs: (element) => ({ latex: (element as HTMLElement).dataset.latex ?? "" }),
+			},
+		];
+	},
+
+	renderHTML({ node }) {
+		return ["span", { "data-type": "inline-math", "data-latex": node.attrs.latex }, `$${node.attrs.latex}$`];
+	},
+
+	markdownTokenizer: {
+		name: "inlineMath",
+		level: "inline",
+		start: (src: string) => src.indexOf("$"),
+		tokenize: (src: string) => {
+			const display = INLINE_DISPLAY_MATH.exec(src);
+			if (display) {
+				return { type: "inlineMath", raw: display[0], latex: display[1]!, delimiter: "$$" } satisfies InlineMathToken;
+			}
+
+			const match = INLINE_MATH.exec(src);
+			if (!match) return undefined;
+			return { type: "inlineMath", raw: match[0], latex: match[1]!, delimiter: "$" } satisfies InlineMathToken;
+		},
+	},
+
+	parseMarkdown: (token: MarkdownToken) => {
+		const { latex, delimiter } = token as InlineMathToken;
+		return { type: "inlineMath", attrs: { latex, delimiter } };
+	},
+
+	renderMarkdown: (node: JSONContent) => {
+		const delimiter = node.attrs?.delimiter === "$$" ? "$$" : "$";
+		return `${delimiter}${node.attrs?.latex ?? ""}${delimiter}`;
+	},
+
+	addCommands() {
+		return {
+			insertInlineMath:
+				(latex = "") =>
+				({ commands }) =>
+					commands.insertContent({ type: this.name, attrs: { latex } }),
+		};
+	},
+
+	addInputRules() {
+		return [
+			new InputRule({
+				find: INLINE_MATH_INPUT,
+				handler: ({ state, range, match }) => {
+					state.tr.replaceWith(range.from, range.to, this.type.create({ latex: match[1] }));
+				},
+			}),
+		];
+	},
+
+	addNodeView() {
+		return ({ editor, node, getPos }) => createMathView(editor, node, getPos, true);
+	},
+});
+
+/**
+ * Display `$$…$$` math block
+ */
+export const BlockMath = Node.create({
+	name: "blockMath",
+	group: "block",
+	atom: true,
+	selectable: true,
+
+	addAttributes() {
+		return {
+			latex: { default: "", rendered: false },
+			/** Whether the dollars sit on their own lines */
+			multiline: { default: true, rendered: false },
+		};
+	},
+
+	parseHTML() {
+		return [
+			{
+				tag: 'div[data-type="block-math"]',
+				getAttrs: (element) => ({ latex: (element as HTMLElement).dataset.latex ?? "" }),
+			},
+		];
+	},
+
+	renderHTML({ node }) {
+		return ["div", { "data-type": "block-math", "data-latex": node.attrs.latex }, `$$${node.attrs.latex}$$`];
+	},
+
+	markdownTokenizer: {
+		name: "blockMath",
+		level: "block",
+		start: (src: string) => /^\$\$/m.exec(src)?.index ?? -1,
+		tokenize: (src: string) => {
+			const match = BLOCK_MATH.exec(src);
+			if (!match) return undefined;
+
+			const multiline = match[1] !== undefined;
+			return {
+				type: "blockMath",
+				raw: match[0],
+				latex: (multiline ? match[1] : match[2])!,
+				multiline,
+			} satisfies BlockMathToken;
+		},
+	},
+
+	parseMarkdown: (token: MarkdownToken) => {
+		const { latex, multiline } = token as BlockMathToken;
+		return { type: "blockMath", attrs: { latex, multiline } };
+	},
+
+	renderMarkdown: (node: JSONContent) => {
+		const latex = node.attrs?.latex ?? "";
+		return node.attrs?.multiline === false ? `$$${latex}$$` : `$$\n${latex}\n$$`;
+	},
+
+	addCommands() {
+		return {
+			insertBlockMath:
+				(latex = "") =>
+				({ commands }) =>
+					commands.insertContent({ type: this.name, attrs: { latex } }),
+		};
+	},
+
+	addInputRules() {
+		return [
+			new InputRule({
+				find: BLOCK_MATH_INPUT,
+				handler: ({ state, range }) => {
+					const $start = state.doc.resolve(range.from);
+					// Only a paragraph holding nothing but the dollars becomes a block
+					if ($start.parent.type.name !== "paragraph" || $start.parent.content.size !== range.to - range.from) {
+						return null;
+					}
+
+					const from = $start.before();
+					const to = $start.after();
+					state.tr.replaceWith(from, to, this.type.create());
+				},
+			}),
+		];
+	},
+
+	addNodeView() {
+		return ({ editor, node, getPos }) => createMathView(editor, node, getPos, false);
+	},
+});
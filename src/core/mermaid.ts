@@ -0,0 +1,210 @@
+/**
+ * Mermaid diagrams for ```mermaid code blocks
+ * @module core/mermaid
+ */
+
+import CodeBlockLowlight from "@tiptap/extension-code-block-lowlight";
+import type { Node as ProseMirrorNode } from "prosemirror-model";
+import mermaid from "mermaid";
+import type { ThemeTokens } from "../types";
+
+/** Pause in typing before an edited diagram is drawn again */
+const RENDER_DELAY = 400;
+
+let themeTokens: ThemeTokens | null = null;
+let renderCount = 0;
+
+/** Redraw callbacks of the diagrams in the document, run when the theme changes */
+const mountedDiagrams = new Set<() => void>();
+
+function isMermaid(node: ProseMirrorNode): boolean {
+	return node.attrs.language === "mermaid";
+}
+
+/**
+ * Check whether a CSS color is dark, letting the browser resolve it to rgb
+ */
+function isDarkColor(color: string): boolean {
+	const probe = document.createElement("span");
+	probe.style.color = color;
+	document.body.appendChild(probe);
+	const [r = 0, g = 0, b = 0] = (getComputedStyle(probe).color.match(/[\d.]+/g) ?? []).map(Number);
+	probe.remove();
+
+	return r * 0.299 + g * 0.587 + b * 0.114 < 128;
+}
+
+/**
+ * Configure mermaid with colors from the theme
+ */
+function configureMermaid(tokens: ThemeTokens | null): void {
+	mermaid.initialize({
+		startOnLoad: false,
+		securityLevel: "strict",
+		theme: tokens ? "base" : "default",
+		themeVariables: tokens
+			? {
+					darkMode: isDarkColor(tokens.bgEditor),
+					background: tokens.bgCodeBlock,
+					primaryColor: tokens.bgSurface,
+					primaryTextColor: tokens.textBody,
+					primaryBorderColor: tokens.accent,
+					secondaryColor: tokens.bgCodeInline,
+					tertiaryColor: tokens.bgCodeBlock,
+					lineColor: tokens.textMuted,
+					textColor: tokens.textBody,
+					noteBkgColor: tokens.bgCodeInline,
+					noteTextColor: tokens.textSecondary,
+					noteBorderColor: tokens.borderSecondary,
+				}
+			: {},
+	});
+}
+
+configureMermaid(null);
+
+/**
+ * Draw diagrams with the active theme colors, redrawing any already shown
+ */
+export function setDiagramTheme(tokens: ThemeTokens): void {
+	themeTokens = tokens;
+	configureMermaid(themeTokens);
+	for (const redraw of mountedDiagrams) redraw();
+}
+
+/**
+ * Render mermaid source to SVG
+ */
+export async function renderDiagram(source: string): Promise<string> {
+	const id = `md-mermaid-${++renderCount}`;
+	try {
+		const { svg } = await mermaid.render(id, source);
+		return svg;
+	} finally {
+		// A failed render can leave its scratch element behind
+		document.getElementById(`d${id}`)?.remove();
+	}
+}
+
+/**
+ * Node view for mermaid code blocks, showing the diagram with a toggle to its source
+ */
+function createMermaidView(initialNode: ProseMirrorNode, languageClassPrefix: string) {
+	let node = initialNode;
+	let showingSource = false;
+	let renderTimeout: ReturnType<typeof setTimeout> | null = null;
+	let renderedSource: string | null = null;
+	let renderId = 0;
+
+	const dom = document.createElement("div");
+	dom.className = "md-mermaid";
+
+	const toggle = document.createElement("button");
+	toggle.type = "button";
+	toggle.className = "md-mermaid-toggle";
+	toggle.contentEditable = "false";
+
+	const diagram = document.createElement("div");
+	diagram.className = "md-mermaid-diagram";
+	diagram.contentEditable = "false";
+
+	const pre = document.createElement("pre");
+	const code = document.createElement("code");
+	code.className = `${languageClassPrefix}mermaid`;
+	pre.appendChild(code);
+
+	dom.append(toggle, diagram, pre);
+
+	const draw = async (force = false) => {
+		if (renderTimeout) clearTimeout(renderTimeout);
+		renderTimeout = null;
+
+		const source = node.textContent;
+		if (!force && source === renderedSource) return;
+		renderedSource = source;
+
+		const id = ++renderId;
+		if (!source.trim()) {
+			diagram.className = "md-mermaid-diagram is-empty";
+			diagram.textContent = "Empty diagram";
+			return;
+		}
+
+		try {
+			const svg = await renderDiagram(source);
+			if (id !== renderId) return;
+			diagram.className = "md-mermaid-diagram";
+			diagram.innerHTML = svg;
+		} catch (err) {
+			if (id !== renderId) return;
+			diagram.className = "md-mermaid-diagram has-error";
+			diagram.textContent = err instanceof Error ? err.message : String(err);
+		}
+	};
+
+	const redraw = () => {
+		void draw(true);
+	};
+
+	const setShowingSource = (value: boolean) => {
+		showingSource = value;
+		dom.classList.toggle("showing-source", value);
+		toggle.textContent = value ? "Show diagram" : "Edit source";
+		if (!value) void draw();
+	};
+
+	toggle.addEventListener("mousedown", (e) => e.preventDefault());
+	toggle.addEventListener("click", () => setShowingSource(!showingSource));
+	diagram.addEventListener("dblclick", () => setShowingSource(true));
+
+	mountedDiagrams.add(redraw);
+	setShowingSource(false);
+
+	return {
+		dom,
+		contentDOM: code,
+		update: (updated: ProseMirrorNode) => {
+			if (updated.type !== node.type || !isMermaid(updated)) return false;
+			node = updated;
+
+			// The diagram follows source edits once typing pauses
+			if (renderTimeout) clearTimeout(renderTimeout);
+			renderTimeout = setTimeout(() => void draw(), RENDER_DELAY);
+			return true;
+		},
+		stopEvent: (event: Event) => event.target === toggle || diagram.contains(event.target as Node),
+		ignoreMutation: (mutation: { target: Node; type: string }) =>
+			mutation.type !== "selection" && !code.contains(mutation.target),
+		destroy: () => {
+			if (renderTimeout) clearTimeout(renderTimeout);
+			mountedDiagrams.delete(redraw);
+		},
+	};
+}
+
+/**
+ * Code block with syntax highlighting that draws ```mermaid blocks as diagrams
+ * The node and its markdown stay a plain code block.
+ */
+export const MermaidCodeBlock = CodeBlockLowlight.extend({
+	addNodeView() {
+		const languageClassPrefix = this.options.languageClassPrefix ?? "language-";
+
+		return ({ node }) => {
+			if (isMermaid(node)) return createMermaidView(node, languageClassPrefix);
+
+			// Other languages keep the usual pre > code rendering
+			const pre = document.createElement("pre");
+			const code = document.createElement("code");
+			if (node.attrs.language) code.className = `${languageClassPrefix}${node.attrs.language}`;
+			pre.appendChild(code);
+
+			return {
+				dom: pre,
+				contentDOM: code,
+				update: (updated: ProseMirrorNode) =>
+					updated.type === node.type && updated.attrs.language === node.attrs.language,
+			};
+		};
+	},
+});
@@ -0,0 +1,100 @@
+/**
+ * Document outline built from heading nodes
+ * @module core/outline
+ */
+
+import type { Editor } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "prosemirror-model";
+
+export interface OutlineHeading {
+	/** Heading level (1-6) */
+	level: number;
+	/** Plain text of the heading */
+	text: string;
+	/** Position of the heading node */
+	pos: number;
+	/** End of the heading's section, or null if it is not a top-level block */
+	sectionEnd: number | null;
+}
+
+/**
+ * Collect the headings of a document in order
+ * Only top-level headings own a section that can be moved.
+ */
+export function getOutline(doc: ProseMirrorNode): OutlineHeading[] {
+	const headings: OutlineHeading[] = [];
+
+	doc.descendants((node, pos, parent) => {
+		if (node.type.name !== "heading") return true;
+
+		headings.push({
+			level: node.attrs.level as number,
+			text: node.textContent,
+			pos,
+			sectionEnd: parent === doc ? getSectionEnd(doc, pos) : null,
+		});
+
+		return false;
+	});
+
+	return headings;
+}
+
+/**
+ * Find where the section of a top-level heading ends
+ * A section runs until the next heading of the same or a higher level.
+ */
+function getSectionEnd(doc: ProseMirrorNode, headingPos: number): number {
+	const heading = doc.nodeAt(headingPos);
+	const level = heading?.attrs.level as number;
+
+	let end = doc.content.size;
+	let found = false;
+
+	doc.forEach((node, offset) => {
+		if (found || offset <= headingPos) return;
+		if (node.type.name === "heading" && (node.attrs.level as number) <= level) {
+			end = offset;
+			found = true;
+		}
+	});
+
+	return end;
+}
+
+/**
+ * Get the heading whose section contains a position
+ */
+export function getCurrentHeading(headings: OutlineHeading[], pos: number): OutlineHeading | null {
+	let current: OutlineHeading | null = null;
+	for (const heading of headings) {
+		if (heading.pos > pos) break;
+		current = heading;
+	}
+	return current;
+}
+
+/**
+ * Move a heading's section so it starts at a top-level position
+ * Returns false if the heading cannot be moved there (for example into its own section).
+ */
+export function moveSection(editor: Editor, headingPos: number, targetPos: number): boolean {
+	const { state } = editor;
+	const heading = getOutline(state.doc).find((h) => h.pos === headingPos);
+	if (!heading || heading.sectionEnd === null) return false;
+
+	const from = heading.pos;
+	const to = heading.sectionEnd;
+	if (targetPos >= from && targetPos <= to) return false;
+
+	// Only block boundaries of the document are valid targets
+	const $target = state.doc.resolve(targetPos);
+	if ($target.depth !== 0) return false;
+
+	const content = state.doc.slice(from, to).content;
+	const tr = state.tr.delete(from, to);
+	tr.insert(tr.mapping.map(targetPos), content);
+
+	editor.view.dispatch(tr.scrollIntoView());
+	return true;
+}
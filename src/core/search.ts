@@ -0,0 +1,347 @@
+/**
+ * Find and replace
+ * Matches are highlighted with decorations; replacements are single transactions.
+ * @module core/search
+ */
+
+import { Extension } from "@tiptap/core";
+import type { Command } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "prosemirror-model";
+import { Plugin, PluginKey, TextSelection } from "prosemirror-state";
+import type { EditorState, Transaction } from "prosemirror-state";
+import { Decoration, DecorationSet } from "prosemirror-view";
+
+export interface SearchOptions {
+	caseSensitive: boolean;
+	wholeWord: boolean;
+	regex: boolean;
+}
+
+export interface SearchMatch {
+	from: number;
+	to: number;
+	/** Capture groups, used to expand $1-style references in regex replacements */
+	groups: string[];
+	namedGroups?: Record<string, string>;
+}
+
+export interface SearchState {
+	query: string;
+	options: SearchOptions;
+	matches: SearchMatch[];
+	/** Index of the current match, or -1 when there are none */
+	currentIndex: number;
+	/** Set when the query is not a valid regular expression */
+	error: string | null;
+	decorations: DecorationSet;
+}
+
+type SearchMeta =
+	| { type: "setQuery"; query: string; options: SearchOptions; }
+	| { type: "setCurrent"; index: number; }
+	| { type: "replaced"; pos: number; };
+
+declare module "@tiptap/core" {
+	interface Commands<ReturnType> {
+		search: {
+			/** Set the search query and options, highlighting every match */
+			setSearchQuery: (query: string, options?: Partial<SearchOptions>) => ReturnType;
+			/** Clear the search and its highlights */
+			clearSearch: () => ReturnType;
+			/** Select the next match */
+			nextSearchMatch: () => ReturnType;
+			/** Select the previous match */
+			previousSearchMatch: () => ReturnType;
+			/** Replace the current match and move to the next one */
+			replaceSearchMatch: (replacement: string) => ReturnType;
+			/** Replace every match in a single undoable transaction */
+			replaceAllSearchMatches: (replacement: string) => ReturnType;
+		};
+	}
+}
+
+export const searchKey = new PluginKey<SearchState>("search");
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+	caseSensitive: false,
+	wholeWord: false,
+	regex: false,
+};
+
+/**
+ * Build the regular expression for a query
+ * Throws if the query is an invalid regular expression.
+ */
+function buildSearchRegex(query: string, options: SearchOptions): RegExp {
+	let source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	if (options.wholeWord) {
+		source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+	}
+	return new RegExp(source, `gu${options.caseSensitive ? "" : "i"}`);
+}
+
+/**
+ * Find all matches of a regex in the document
+ * Each textblock is searched separately, so matches never span blocks.
+ */
+function findMatches(doc: ProseMirrorNode, regex: RegExp): SearchMatch[] {
+	const matches: SearchMatch[] = [];
+
+	doc.descendants((node, pos) => {
+		if (!node.isTextblock) return true;
+
+		// Map offsets in the block's text back to document positions
+		let text = "";
+		const offsets: number[] = [];
+		node.forEach((child, offset) => {
+			const childText = child.isText ? child.text ?? "" : "\ufffc";
+			for (let i = 0; i < childText.length; i++) offsets.push(pos + 1 + offset + i);
+			text += childText;
+		});
+		offsets.push(pos + 1 + node.content.size);
+
+		regex.lastIndex = 0;
+		for (const match of text.matchAll(regex)) {
+			if (match[0].length === 0) continue;
+
+			const start = match.index ?? 0;
+			matches.push({
+				from: offsets[start]!,
+				to: offsets[start + match[0].length - 1]! + 1,
+				groups: Array.from(match),
+				namedGroups: match.groups,
+			});
+		}
+
+		return false;
+	});
+
+	return matches;
+}
+
+/**
+ * Expand $&, $1 and $<name> references in a regex replacement
+ */
+function expandReplacement(replacement: string, match: SearchMatch): string {
+	return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, ref: string, name?: string) => {
+		if (ref === "$") return "$";
+		if (ref === "&") return match.groups[0] ?? "";
+		if (name !== undefined) return match.namedGroups?.[name] ?? token;
+
+		const index = Number(ref);
+		return index < match.groups.length ? match.groups[index] ?? "" : token;
+	});
+}
+
+/**
+ * Compute the search state for a document
+ */
+function computeSearchState(
+	doc: ProseMirrorNode,
+	query: string,
+	options: SearchOptions,
+	selectionFrom: number,
+	preferredIndex?: number
+): SearchState {
+	let matches: SearchMatch[] = [];
+	let error: string | null = null;
+
+	if (query) {
+		try {
+			matches = findMatches(doc, buildSearchRegex(query, options));
+		} catch (err) {
+			error = err instanceof Error ? err.message : String(err);
+		}
+	}
+
+	let currentIndex = -1;
+	if (matches.length > 0) {
+		currentIndex =
+			preferredIndex !== undefined
+				? Math.min(preferredIndex, matches.length - 1)
+				: Math.max(0, matches.findIndex((m) => m.from >= selectionFrom));
+	}
+
+	return {
+		query,
+		options,
+		matches,
+		currentIndex,
+		error,
+		decorations: buildDecorations(doc, matches, currentIndex),
+	};
+}
+
+/**
+ * Highlight every match, marking the current one
+ */
+function buildDecorations(doc: ProseMirrorNode, matches: SearchMatch[], currentIndex: number): DecorationSet {
+	if (matches.length === 0) return DecorationSet.empty;
+
+	return DecorationSet.create(
+		doc,
+		matches.map((match, i) =>
+			Decoration.inline(match.from, match.to, {
+				class: i === currentIndex ? "md-search-match md-search-match-current" : "md-search-match",
+			})
+		)
+	);
+}
+
+/**
+ * Select a match and scroll it into view
+ */
+function selectMatch(tr: Transaction, match: SearchMatch): Transaction {
+	return tr.setSelection(TextSelection.create(tr.doc, match.from, match.to)).scrollIntoView();
+}
+
+/**
+ * Command moving the current match forward or back (wraps around)
+ */
+function stepMatch(direction: 1 | -1): Command {
+	return ({ state, tr, dispatch }) => {
+		const search = searchKey.getState(state);
+		if (!search || search.matches.length === 0) return false;
+
+		const count = search.matches.length;
+		const index = (search.currentIndex + direction + count) % count;
+
+		if (dispatch) {
+			const meta: SearchMeta = { type: "setCurrent", index };
+			selectMatch(tr.setMeta(searchKey, meta), search.matches[index]!);
+		}
+		return true;
+	};
+}
+
+/**
+ * Get the search state of an editor state
+ */
+export function getSearchState(state: EditorState): SearchState | undefined {
+	return searchKey.getState(state);
+}
+
+/**
+ * Extension providing find and replace commands and match highlighting
+ */
+export const Search = Extension.create({
+	name: "search",
+
+	addCommands() {
+		return {
+			setSearchQuery:
+				(query, options = {}) =>
+					({ state, tr, dispatch }) => {
+						const current = searchKey.getState(state)?.options ?? DEFAULT_SEARCH_OPTIONS;
+						if (dispatch) {
+							const meta: SearchMeta = { type: "setQuery", query, options: { ...current, ...options } };
+							tr.setMeta(searchKey, meta).setMeta("addToHistory", false);
+						}
+						return true;
+					},
+
+			clearSearch:
+				() =>
+					({ state, tr, dispatch }) => {
+						const current = searchKey.getState(state)?.options ?? DEFAULT_SEARCH_OPTIONS;
+						if (dispatch) {
+							const meta: SearchMeta = { type: "setQuery", query: "", options: current };
+							tr.setMeta(searchKey, meta).setMeta("addToHistory", false);
+						}
+						return true;
+					},
+
+			nextSearchMatch: () => stepMatch(1),
+			previousSearchMatch: () => stepMatch(-1),
+
+			replaceSearchMatch:
+				(replacement) =>
+					({ state, tr, dispatch }) => {
+						const search = searchKey.getState(state);
+						const match = search?.matches[search.currentIndex];
+						if (!search || !match) return false;
+
+						if (dispatch) {
+							const text = search.options.regex ? expandReplacement(replacement, match) : replacement;
+							if (text) {
+								tr.insertText(text, match.from, match.to);
+							} else {
+								tr.delete(match.from, match.to);
+							}
+							// Continue from the first match after the inserted text
+							const meta: SearchMeta = { type: "replaced", pos: match.from + text.length };
+							tr.setMeta(searchKey, meta);
+						}
+						return true;
+					},
+
+			replaceAllSearchMatches:
+				(replacement) =>
+					({ state, tr, dispatch }) => {
+						const search = searchKey.getState(state);
+						if (!search || search.matches.length === 0) return false;
+
+						if (dispatch) {
+							// Replace from the end so earlier positions stay valid
+							for (const match of [...search.matches].reverse()) {
+								const text = search.options.regex ? expandReplacement(replacement, match) : replacement;
+								if (text) {
+									tr.insertText(text, match.from, match.to);
+								} else {
+									tr.delete(match.from, match.to);
+								}
+							}
+						}
+						return true;
+					},
+		};
+	},
+
+	addProseMirrorPlugins() {
+		return [
+			new Plugin<SearchState>({
+				key: searchKey,
+				state: {
+					init: (_config, state) =>
+						computeSearchState(state.doc, "", DEFAULT_SEARCH_OPTIONS, state.selection.from),
+					apply(tr, prev, _oldState, newState) {
+						const meta = tr.getMeta(searchKey) as SearchMeta | undefined;
+
+						if (meta?.type === "setQuery") {
+							return computeSearchState(newState.doc, meta.query, meta.options, newState.selection.from);
+						}
+
+						if (!prev.query) return prev;
+
+						if (tr.docChanged) {
+							if (meta?.type === "replaced") {
+								return computeSearchState(newState.doc, prev.query, prev.options, meta.pos);
+							}
+
+							return computeSearchState(
+								newState.doc,
+								prev.query,
+								prev.options,
+								newState.selection.from,
+								prev.currentIndex === -1 ? undefined : prev.currentIndex
+							);
+						}
+
+						if (meta?.type === "setCurrent") {
+							return {
+								...prev,
+								currentIndex: meta.index,
+								decorations: buildDecorations(newState.doc, prev.matches, meta.index),
+							};
+						}
+
+						return prev;
+					},
+				},
+				props: {
+					decorations: (state) => searchKey.getState(state)?.decorations,
+				},
+			}),
+		];
+	},
+});
@@ -0,0 +1,236 @@
+/**
+ * Settings bundles - export, import and named profiles
+ * A bundle holds the settings, the custom theme and the toolbar state, which
+ * are otherwise stored under separate keys.
+ * @module core/settings-profiles
+ */
+
+import type {
+	CustomTheme,
+	EditorSettings,
+	SettingsBundle,
+	SettingsProfile,
+	ThemeTokens,
+	ToolbarLayout,
+} from "../types";
+import { getDefaultSettings, getThemeTokens } from "../config";
+import { customThemeStorage, settingsProfileStorage, settingsStorage, toolbarStorage } from "./storage";
+
+type SettingsProfilesListener = () => void;
+
+export type SettingsBundleResult =
+	| { bundle: SettingsBundle; error: null; }
+	| { bundle: null; error: string; };
+
+/** Identifies exported settings files */
+export const SETTINGS_FILE_FORMAT = "blankmd-settings";
+
+/** Version of the exported file layout */
+const SETTINGS_FILE_VERSION = 1;
+
+const THEME_MODES = ["light", "dark", "system"];
+const TOOLBAR_POSITIONS = ["top", "bottom", "floating"];
+
+const listeners = new Set<SettingsProfilesListener>();
+
+/**
+ * Check that a value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check settings, filling in defaults for anything missing
+ * Throws with a readable message when a value has the wrong type.
+ */
+function readSettings(value: unknown): EditorSettings {
+	if (!isRecord(value)) throw new Error("Settings are missing");
+
+	const defaults = getDefaultSettings();
+	const settings: Record<string, unknown> = {};
+
+	for (const [key, fallback] of Object.entries(defaults)) {
+		const field = value[key] ?? fallback;
+		if (typeof field !== typeof fallback || (typeof field === "number" && !Number.isFinite(field))) {
+			throw new Error(`Setting "${key}" should be a ${typeof fallback}`);
+		}
+		settings[key] = field;
+	}
+
+	if (!THEME_MODES.includes(settings.theme as string)) {
+		throw new Error(`Unknown theme "${String(settings.theme)}"`);
+	}
+
+	return settings as unknown as EditorSettings;
+}
+
+/**
+ * Check a custom theme, dropping tokens the editor does not know
+ */
+function readCustomTheme(value: unknown): CustomTheme | null {
+	if (value === null || value === undefined) return null;
+	if (!isRecord(value) || typeof value.name !== "string" || !isRecord(value.tokens)) {
+		throw new Error("Custom theme is not valid");
+	}
+	if (value.base !== "light" && value.base !== "dark") {
+		throw new Error(`Unknown custom theme base "${String(value.base)}"`);
+	}
+
+	const tokens: Partial<ThemeTokens> = {};
+	for (const key of Object.keys(getThemeTokens(false)) as Array<keyof ThemeTokens>) {
+		const token = value.tokens[key];
+		if (token === undefined) continue;
+		if (typeof token !== "string") throw new Error(`Color "${key}" should be a string`);
+		tokens[key] = token;
+	}
+
+	return { name: value.name, base: value.base, tokens };
+}
+
+/**
+ * Check a toolbar layout
+ * Unknown button ids are kept; the toolbar drops the ones it does not have.
+ */
+function readToolbarLayout(value: unknown): ToolbarLayout | null {
+	if (value === null || value === undefined) return null;
+	if (!isRecord(value) || !Array.isArray(value.items)) throw new Error("Toolbar layout is not valid");
+
+	const items = value.items.map((item) => {
+		if (!isRecord(item) || typeof item.id !== "string") throw new Error("Toolbar layout is not valid");
+		return { id: item.id, hidden: item.hidden === true };
+	});
+
+	if (!TOOLBAR_POSITIONS.includes(value.position as string)) {
+		throw new Error(`Unknown toolbar position "${String(value.position)}"`);
+	}
+
+	const offset = value.floatingOffset;
+	const floatingOffset =
+		isRecord(offset) && typeof offset.x === "number" && typeof offset.y === "number"
+			? { x: offset.x, y: offset.y }
+			: null;
+
+	return { items, position: value.position as ToolbarLayout["position"], floatingOffset };
+}
+
+/**
+ * Check a bundle and bring it into its canonical shape
+ */
+function readSettingsBundle(value: unknown): SettingsBundle {
+	if (!isRecord(value)) throw new Error("Not a settings file");
+
+	const toolbar = isRecord(value.toolbar) ? value.toolbar : {};
+	return {
+		settings: readSettings(value.settings),
+		customTheme: readCustomTheme(value.customTheme),
+		toolbar: {
+			visible: toolbar.visible === true,
+			layout: readToolbarLayout(toolbar.layout),
+		},
+	};
+}
+
+/**
+ * Get the bundle for the settings currently in use
+ */
+export function getCurrentSettingsBundle(): SettingsBundle {
+	return readSettingsBundle({
+		settings: settingsStorage.load(),
+		customTheme: customThemeStorage.load(),
+		toolbar: { visible: toolbarStorage.isVisible(), layout: toolbarStorage.loadLayout() },
+	});
+}
+
+/**
+ * Write a bundle as the contents of a settings file
+ */
+export function serializeSettingsBundle(bundle: SettingsBundle): string {
+	return JSON.stringify(
+		{ format: SETTINGS_FILE_FORMAT, version: SETTINGS_FILE_VERSION, exportedAt: new Date().toISOString(), ...bundle },
+		null,
+		2
+	);
+}
+
+/**
+ * Read the contents of a settings file
+ * Returns the reason when the file cannot be used, and nothing is applied.
+ */
+export function parseSettingsBundle(text: string): SettingsBundleResult {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		return { bundle: null, error: "The file is not valid JSON" };
+	}
+
+	if (!isRecord(data) || data.format !== SETTINGS_FILE_FORMAT) {
+		return { bundle: null, error: "The file is not a blankmd settings file" };
+	}
+	if (typeof data.version !== "number" || data.version > SETTINGS_FILE_VERSION) {
+		return { bundle: null, error: "The file was exported by a newer version of blankmd" };
+	}
+
+	try {
+		return { bundle: readSettingsBundle(data), error: null };
+	} catch (err) {
+		return { bundle: null, error: err instanceof Error ? err.message : String(err) };
+	}
+}
+
+/**
+ * Check whether two bundles hold the same settings
+ */
+export function isSameSettingsBundle(a: SettingsBundle, b: SettingsBundle): boolean {
+	return JSON.stringify(readSettingsBundle(a)) === JSON.stringify(readSettingsBundle(b));
+}
+
+/**
+ * Subscribe to profiles being added, changed or removed
+ * Returns a function that removes the listener.
+ */
+export function onSettingsProfilesChange(listener: SettingsProfilesListener): () => void {
+	listeners.add(listener);
+	return () => listeners.delete(listener);
+}
+
+function notifyListeners(): void {
+	for (const listener of listeners) listener();
+}
+
+/**
+ * List the saved profiles in creation order
+ */
+export function listSettingsProfiles(): SettingsProfile[] {
+	return settingsProfileStorage.list();
+}
+
+/**
+ * Save a bundle as a new profile
+ */
+export function createSettingsProfile(name: string, bundle: SettingsBundle): SettingsProfile {
+	const profile = settingsProfileStorage.create(name.trim(), bundle);
+	notifyListeners();
+	return profile;
+}
+
+/**
+ * Rename a profile or replace its settings
+ */
+export function updateSettingsProfile(id: string, changes: { name?: string; bundle?: SettingsBundle; }): void {
+	const updates: Partial<Pick<SettingsProfile, "name" | "bundle">> = {};
+	if (changes.name?.trim()) updates.name = changes.name.trim();
+	if (changes.bundle) updates.bundle = changes.bundle;
+
+	settingsProfileStorage.update(id, updates);
+	notifyListeners();
+}
+
+/**
+ * Delete a profile
+ */
+export function deleteSettingsProfile(id: string): void {
+	settingsProfileStorage.delete(id);
+	notifyListeners();
+}
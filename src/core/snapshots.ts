@@ -0,0 +1,186 @@
+/**
+ * Version history - rolling snapshots of the active document
+ * @module core/snapshots
+ */
+
+import type { Editor, JSONContent } from "@tiptap/core";
+import type { Snapshot, SnapshotReason, SnapshotSummary } from "../types";
+import { snapshotStorage } from "./storage";
+import { getActiveDocumentId, getDocumentTitle } from "./documents";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** Minimum time between automatic snapshots while editing */
+const AUTO_SNAPSHOT_INTERVAL = 5 * MINUTE;
+
+/** Upper bound on snapshots kept per document */
+const MAX_SNAPSHOTS = 100;
+
+/** Upper bound on the stored size of a document's snapshots */
+const MAX_SNAPSHOT_BYTES = 2 * 1024 * 1024;
+
+/** Automatic snapshots older than this are dropped */
+const MAX_SNAPSHOT_AGE = 30 * DAY;
+
+let resolveDocumentKey: () => string | null = getActiveDocumentId;
+let lastAutoSnapshotAt = 0;
+
+/**
+ * Thin out snapshots (newest first)
+ *
+ * Everything from the last hour is kept, then the newest snapshot of each
+ * hour for a day and of each day for a month. Versions saved by hand are
+ * only dropped by the overall caps, and only once every older automatic
+ * snapshot is gone. The newest snapshot is always kept.
+ */
+function applyRetention(snapshots: SnapshotSummary[], now: number): SnapshotSummary[] {
+	const seenBuckets = new Set<string>();
+
+	const kept = snapshots.filter((snapshot) => {
+		if (snapshot.reason === "manual") return true;
+
+		const age = now - snapshot.createdAt;
+		if (age < HOUR) return true;
+		if (age > MAX_SNAPSHOT_AGE) return false;
+
+		const bucket =
+			age < DAY
+				? `hour-${Math.floor(snapshot.createdAt / HOUR)}`
+				: `day-${Math.floor(snapshot.createdAt / DAY)}`;
+
+		if (seenBuckets.has(bucket)) return false;
+		seenBuckets.add(bucket);
+		return true;
+	});
+
+	let count = kept.length;
+	let totalBytes = kept.reduce((sum, snapshot) => sum + snapshot.size, 0);
+	const dropped = new Set<SnapshotSummary>();
+
+	// Oldest automatic snapshots first, then the oldest versions saved by hand
+	for (const manual of [false, true]) {
+		for (let i = kept.length - 1; i > 0 && (count > MAX_SNAPSHOTS || totalBytes > MAX_SNAPSHOT_BYTES); i--) {
+			const snapshot = kept[i]!;
+			if ((snapshot.reason === "manual") !== manual) continue;
+
+			dropped.add(snapshot);
+			count--;
+			totalBytes -= snapshot.size;
+		}
+	}
+
+	return kept.filter((snapshot) => !dropped.has(snapshot));
+}
+
+/**
+ * Check if content has no text or other nodes worth keeping
+ */
+function isEmptyContent(content: JSONContent): boolean {
+	const blocks = content.content ?? [];
+	return blocks.every((block) => block.type === "paragraph" && !block.content?.length);
+}
+
+/**
+ * List the snapshots of the active document, newest first
+ */
+export function listSnapshots(): SnapshotSummary[] {
+	const key = resolveDocumentKey();
+	return key ? snapshotStorage.list(key) : [];
+}
+
+/**
+ * Get a single snapshot of the active document, with its content
+ */
+export function getSnapshot(id: string): Snapshot | null {
+	const key = resolveDocumentKey();
+	return key ? snapshotStorage.get(key, id) : null;
+}
+
+/**
+ * Record a snapshot of the given content (the editor content by default)
+ * Empty documents and content identical to the latest snapshot are skipped,
+ * except for versions saved by hand.
+ */
+export function takeSnapshot(
+	editor: Editor,
+	reason: SnapshotReason,
+	content: JSONContent = editor.getJSON()
+): Snapshot | null {
+	const key = resolveDocumentKey();
+	if (!key || isEmptyContent(content)) return null;
+
+	const snapshots = snapshotStorage.list(key);
+	const latest = snapshots[0] ? snapshotStorage.get(key, snapshots[0].id) : null;
+	if (latest && JSON.stringify(latest.content) === JSON.stringify(content)) {
+		if (reason !== "manual" || latest.reason === "manual") return latest;
+	}
+
+	const now = Date.now();
+	const snapshot = snapshotStorage.create({
+		reason,
+		title: getDocumentTitle(content),
+		content,
+		createdAt: now,
+	});
+
+	const { content: _content, ...summary } = snapshot;
+	snapshotStorage.saveContent(snapshot.id, content);
+	snapshotStorage.saveList(key, applyRetention([summary, ...snapshots], now));
+	return snapshot;
+}
+
+/**
+ * Replace the editor content with a snapshot
+ * The current content is snapshotted first, and the change can be undone.
+ */
+export function restoreSnapshot(editor: Editor, id: string): boolean {
+	const snapshot = getSnapshot(id);
+	if (!snapshot) return false;
+
+	takeSnapshot(editor, "restore");
+	return editor.chain().focus().setContent(snapshot.content).run();
+}
+
+/**
+ * Delete a snapshot of the active document
+ */
+export function deleteSnapshot(id: string): void {
+	const key = resolveDocumentKey();
+	if (!key) return;
+
+	snapshotStorage.saveList(
+		key,
+		snapshotStorage.list(key).filter((snapshot) => snapshot.id !== id)
+	);
+}
+
+export interface SnapshotOptions {
+	/** Storage key of the document being edited (defaults to the active workspace document) */
+	documentKey?: () => string | null;
+}
+
+/**
+ * Start taking timed snapshots
+ * The state before an edit is recorded once the interval has passed, so the
+ * first edit of a session always preserves what was loaded.
+ */
+export function initSnapshots(editor: Editor, options: SnapshotOptions = {}): void {
+	resolveDocumentKey = options.documentKey ?? getActiveDocumentId;
+	lastAutoSnapshotAt = 0;
+
+	editor.on("update", ({ transaction }) => {
+		// Loading another document is not an edit, the next edit snapshots it
+		if (transaction.getMeta("addToHistory") === false) {
+			lastAutoSnapshotAt = 0;
+			return;
+		}
+
+		const now = Date.now();
+		if (now - lastAutoSnapshotAt < AUTO_SNAPSHOT_INTERVAL) return;
+
+		lastAutoSnapshotAt = now;
+		takeSnapshot(editor, "auto", transaction.before.toJSON() as JSONContent);
+	});
+}
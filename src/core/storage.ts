@@ -3,8 +3,28 @@
  * @module core/storage
  */
 
-import type { StorageAdapter, EditorSettings } from "../types";
+import type { JSONContent } from "@tiptap/core";
+import type {
+	StorageAdapter,
+	StorageEnvelope,
+	StorageFormat,
+	StorageMigration,
+	StorageSchema,
+	StoredContent,
+	EditorSettings,
+	CustomTheme,
+	StoredDocument,
+	DocumentSummary,
+	Snapshot,
+	SnapshotSummary,
+	ViewMode,
+	ToolbarLayout,
+	KeybindingOverrides,
+	SettingsProfile,
+	SettingsBundle,
+} from "../types";
 import { STORAGE_KEYS, getDefaultSettings } from "../config";
+import { IndexedDBAdapter, migrateFromLocalStorage, putImage, getImage } from "./indexeddb";
 
 /**
  * LocalStorage adapter implementation
@@ -34,59 +54,525 @@ class LocalStorageAdapter implements StorageAdapter {
 			// Ignore
 		}
 	}
+
+	async getAsync<T>(key: string): Promise<T | null> {
+		return this.get<T>(key);
+	}
+
+	async setAsync<T>(key: string, value: T): Promise<void> {
+		localStorage.setItem(key, JSON.stringify(value));
+	}
+
+	async removeAsync(key: string): Promise<void> {
+		localStorage.removeItem(key);
+	}
 }
 
+/**
+ * Adapter currently backing the storage singleton
+ * Starts as localStorage and is swapped for IndexedDB by initStorage().
+ */
+let activeAdapter: StorageAdapter = new LocalStorageAdapter();
+
 /**
  * Singleton storage instance
  */
-export const storage: StorageAdapter = new LocalStorageAdapter();
+export const storage: StorageAdapter = {
+	get: <T>(key: string) => activeAdapter.get<T>(key),
+	set: <T>(key: string, value: T) => activeAdapter.set(key, value),
+	remove: (key: string) => activeAdapter.remove(key),
+	getAsync: <T>(key: string) => activeAdapter.getAsync<T>(key),
+	setAsync: <T>(key: string, value: T) => activeAdapter.setAsync(key, value),
+	removeAsync: (key: string) => activeAdapter.removeAsync(key),
+};
+
+/**
+ * Switch storage to IndexedDB, migrating existing localStorage data
+ * Falls back to localStorage when IndexedDB is unavailable (e.g. some private modes).
+ */
+export async function initStorage(): Promise<void> {
+	if (typeof indexedDB === "undefined") return;
+
+	try {
+		const adapter = await IndexedDBAdapter.open();
+		await migrateFromLocalStorage(adapter);
+		activeAdapter = adapter;
+	} catch (e) {
+		console.warn("IndexedDB unavailable, using localStorage:", e);
+	}
+}
+
+// ============================================================================
+// Versioned Storage
+// ============================================================================
+
+/**
+ * Size of content once stored, in bytes
+ */
+function getContentSize(content: JSONContent): number {
+	return new TextEncoder().encode(JSON.stringify(content)).length;
+}
+
+/**
+ * Migration steps per schema
+ * Step `i` upgrades data from version `i` to version `i + 1`, so the current
+ * version of a schema is the number of registered steps. Values written
+ * before envelopes existed are read as version 0.
+ */
+const migrations: Record<StorageSchema, StorageMigration[]> = {
+	settings: [],
+	customTheme: [],
+	toolbar: [],
+	toolbarLayout: [],
+	outline: [],
+	documents: [],
+	document: [],
+	content: [],
+	snapshots: [],
+	snapshot: [],
+	viewMode: [],
+	recentCommands: [],
+	keybindings: [],
+	settingsProfiles: [],
+};
+
+/**
+ * Register the next migration step for a schema
+ * Any change to the shape of stored data must come with a step here.
+ */
+export function registerMigration(schema: StorageSchema, migrate: StorageMigration): void {
+	migrations[schema].push(migrate);
+}
+
+/**
+ * Check whether a stored value is already wrapped in an envelope
+ */
+function isEnvelope(value: unknown): value is StorageEnvelope {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		typeof (value as StorageEnvelope).version === "number" &&
+		typeof (value as StorageEnvelope).format === "string" &&
+		"data" in value
+	);
+}
+
+/**
+ * Bring a stored value up to the current schema version
+ */
+function upgradeEnvelope(schema: StorageSchema, raw: unknown): StorageEnvelope {
+	let envelope: StorageEnvelope = isEnvelope(raw)
+		? raw
+		: { version: 0, format: "json", data: raw };
+
+	const steps = migrations[schema];
+	while (envelope.version < steps.length) {
+		const migrate = steps[envelope.version]!;
+		envelope = { ...migrate(envelope), version: envelope.version + 1 };
+	}
+
+	return envelope;
+}
+
+/**
+ * Storage helpers for values kept in versioned envelopes
+ */
+export const versionedStorage = {
+	/**
+	 * Load an envelope, upgrading and rewriting it if it is out of date
+	 */
+	loadEnvelope<T>(key: string, schema: StorageSchema): StorageEnvelope<T> | null {
+		const raw = storage.get<unknown>(key);
+		if (raw === null) return null;
+
+		const envelope = upgradeEnvelope(schema, raw);
+		if (!isEnvelope(raw) || raw.version !== envelope.version) {
+			storage.set(key, envelope);
+		}
+
+		return envelope as StorageEnvelope<T>;
+	},
+
+	load<T>(key: string, schema: StorageSchema): T | null {
+		return this.loadEnvelope<T>(key, schema)?.data ?? null;
+	},
+
+	save<T>(key: string, schema: StorageSchema, data: T, format: StorageFormat = "json"): void {
+		const envelope: StorageEnvelope<T> = {
+			version: migrations[schema].length,
+			format,
+			data,
+		};
+		storage.set(key, envelope);
+	},
+};
+
+// Version 1: wrap values saved before envelopes existed
+registerMigration("settings", (envelope) => envelope);
+registerMigration("customTheme", (envelope) => envelope);
+registerMigration("toolbar", (envelope) => envelope);
+registerMigration("documents", (envelope) => envelope);
+registerMigration("document", (envelope) => ({ ...envelope, format: "prosemirror-json" }));
+
+// Version 1: the single-document slot held either markdown or ProseMirror JSON
+registerMigration("content", (envelope) => ({
+	...envelope,
+	format: typeof envelope.data === "string" ? "markdown" : "prosemirror-json",
+}));
+
+// Version 1: snapshots moved out of the per-document list into their own keys,
+// leaving an index, so taking a snapshot no longer rewrites every other one
+registerMigration("snapshots", (envelope) => ({
+	...envelope,
+	format: "json",
+	data: (envelope.data as Array<Omit<Snapshot, "size">>).map(({ content, ...summary }) => {
+		versionedStorage.save(STORAGE_KEYS.snapshotContentPrefix + summary.id, "snapshot", content, "prosemirror-json");
+		return { ...summary, size: getContentSize(content) };
+	}),
+}));
+
+// Version 2: settings gained the status bar toggle
+registerMigration("settings", (envelope) => ({
+	...envelope,
+	data: { showStatusBar: false, ...(envelope.data as Partial<EditorSettings>) },
+}));
+
+// ============================================================================
+// Storage Helpers
+// ============================================================================
 
 /**
  * Settings-specific storage helpers
  */
 export const settingsStorage = {
 	load(): EditorSettings {
-		const saved = storage.get<Partial<EditorSettings>>(STORAGE_KEYS.settings);
+		const saved = versionedStorage.load<Partial<EditorSettings>>(STORAGE_KEYS.settings, "settings");
 		return { ...getDefaultSettings(), ...saved };
 	},
 
 	save(settings: EditorSettings): void {
-		storage.set(STORAGE_KEYS.settings, settings);
+		versionedStorage.save(STORAGE_KEYS.settings, "settings", settings);
 	},
 
 	reset(): EditorSettings {
 		const defaults = getDefaultSettings();
-		storage.set(STORAGE_KEYS.settings, defaults);
+		versionedStorage.save(STORAGE_KEYS.settings, "settings", defaults);
 		return defaults;
 	},
 };
 
+/**
+ * Custom theme storage helpers
+ */
+export const customThemeStorage = {
+	load(): CustomTheme | null {
+		return versionedStorage.load<CustomTheme>(STORAGE_KEYS.customTheme, "customTheme");
+	},
+
+	save(theme: CustomTheme | null): void {
+		if (theme) {
+			versionedStorage.save(STORAGE_KEYS.customTheme, "customTheme", theme);
+		} else {
+			storage.remove(STORAGE_KEYS.customTheme);
+		}
+	},
+};
+
 /**
  * Toolbar state storage helpers
  */
 export const toolbarStorage = {
 	isVisible(): boolean {
-		return storage.get<boolean>(STORAGE_KEYS.toolbar) ?? false;
+		return versionedStorage.load<boolean>(STORAGE_KEYS.toolbar, "toolbar") ?? false;
 	},
 
 	setVisible(visible: boolean): void {
-		storage.set(STORAGE_KEYS.toolbar, visible);
+		versionedStorage.save(STORAGE_KEYS.toolbar, "toolbar", visible);
+	},
+
+	/** Saved arrangement of the toolbar, or null when it was never customized */
+	loadLayout(): ToolbarLayout | null {
+		return versionedStorage.load<ToolbarLayout>(STORAGE_KEYS.toolbarLayout, "toolbarLayout");
+	},
+
+	saveLayout(layout: ToolbarLayout | null): void {
+		if (layout) {
+			versionedStorage.save(STORAGE_KEYS.toolbarLayout, "toolbarLayout", layout);
+		} else {
+			storage.remove(STORAGE_KEYS.toolbarLayout);
+		}
+	},
+};
+
+/**
+ * Outline sidebar state storage helpers
+ */
+export const outlineStorage = {
+	isOpen(): boolean {
+		return versionedStorage.load<boolean>(STORAGE_KEYS.outline, "outline") ?? false;
+	},
+
+	setOpen(open: boolean): void {
+		versionedStorage.save(STORAGE_KEYS.outline, "outline", open);
+	},
+};
+
+/**
+ * Source and split view mode storage helpers
+ */
+export const viewModeStorage = {
+	load(): ViewMode {
+		return versionedStorage.load<ViewMode>(STORAGE_KEYS.viewMode, "viewMode") ?? "rich";
+	},
+
+	save(mode: ViewMode): void {
+		versionedStorage.save(STORAGE_KEYS.viewMode, "viewMode", mode);
+	},
+};
+
+/**
+ * Recently run command storage helpers
+ * Ids are kept newest first.
+ */
+export const recentCommandStorage = {
+	load(): string[] {
+		return versionedStorage.load<string[]>(STORAGE_KEYS.recentCommands, "recentCommands") ?? [];
+	},
+
+	save(ids: string[]): void {
+		versionedStorage.save(STORAGE_KEYS.recentCommands, "recentCommands", ids);
+	},
+};
+
+/**
+ * Keyboard shortcut storage helpers
+ * Only chords that differ from the command defaults are stored.
+ */
+export const keybindingStorage = {
+	load(): KeybindingOverrides {
+		return versionedStorage.load<KeybindingOverrides>(STORAGE_KEYS.keybindings, "keybindings") ?? {};
+	},
+
+	save(overrides: KeybindingOverrides): void {
+		versionedStorage.save(STORAGE_KEYS.keybindings, "keybindings", overrides);
 	},
 };
 
 /**
- * Content storage helpers
+ * Content storage helpers for the pre-workspace single document
  */
 export const contentStorage = {
-	load(): string {
-		return storage.get<string>(STORAGE_KEYS.content) ?? "";
+	load(): StoredContent | null {
+		const envelope = versionedStorage.loadEnvelope<unknown>(STORAGE_KEYS.content, "content");
+		if (!envelope) return null;
+
+		return envelope.format === "markdown"
+			? { format: "markdown", data: String(envelope.data) }
+			: { format: "prosemirror-json", data: envelope.data as JSONContent };
 	},
 
-	save(content: unknown): void {
-		storage.set(STORAGE_KEYS.content, content);
+	save(content: StoredContent): void {
+		versionedStorage.save(STORAGE_KEYS.content, "content", content.data, content.format);
 	},
 
 	clear(): void {
 		storage.remove(STORAGE_KEYS.content);
 	},
 };
+
+/**
+ * Generate a short unique id for documents, snapshots and profiles
+ */
+function createId(): string {
+	return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Settings profile storage helpers
+ */
+export const settingsProfileStorage = {
+	list(): SettingsProfile[] {
+		return versionedStorage.load<SettingsProfile[]>(STORAGE_KEYS.settingsProfiles, "settingsProfiles") ?? [];
+	},
+
+	saveList(profiles: SettingsProfile[]): void {
+		versionedStorage.save(STORAGE_KEYS.settingsProfiles, "settingsProfiles", profiles);
+	},
+
+	create(name: string, bundle: SettingsBundle): SettingsProfile {
+		const now = Date.now();
+		const profile: SettingsProfile = { id: createId(), name, bundle, createdAt: now, updatedAt: now };
+		this.saveList([...this.list(), profile]);
+		return profile;
+	},
+
+	update(id: string, changes: Partial<Pick<SettingsProfile, "name" | "bundle">>): void {
+		this.saveList(
+			this.list().map((profile) => (profile.id === id ? { ...profile, ...changes, updatedAt: Date.now() } : profile))
+		);
+	},
+
+	delete(id: string): void {
+		this.saveList(this.list().filter((profile) => profile.id !== id));
+	},
+};
+
+/**
+ * Document workspace storage helpers
+ *
+ * The index of documents and each document's content live under separate
+ * keys so that autosaving one document does not rewrite the others.
+ */
+export const documentStorage = {
+	list(): DocumentSummary[] {
+		return versionedStorage.load<DocumentSummary[]>(STORAGE_KEYS.documents, "documents") ?? [];
+	},
+
+	saveList(docs: DocumentSummary[]): void {
+		versionedStorage.save(STORAGE_KEYS.documents, "documents", docs);
+	},
+
+	loadContent(id: string): JSONContent | null {
+		return versionedStorage.load<JSONContent>(STORAGE_KEYS.documentPrefix + id, "document");
+	},
+
+	saveContent(id: string, content: JSONContent | null): void {
+		versionedStorage.save(STORAGE_KEYS.documentPrefix + id, "document", content, "prosemirror-json");
+	},
+
+	get(id: string): StoredDocument | null {
+		const summary = this.list().find((doc) => doc.id === id);
+		if (!summary) return null;
+
+		return { ...summary, content: this.loadContent(id) };
+	},
+
+	create(content: JSONContent | null, title: string): StoredDocument {
+		const now = Date.now();
+		const doc: StoredDocument = {
+			id: createId(),
+			title,
+			customTitle: false,
+			content,
+			createdAt: now,
+			updatedAt: now,
+		};
+
+		const { content: _content, ...summary } = doc;
+		this.saveList([...this.list(), summary]);
+		this.saveContent(doc.id, content);
+
+		return doc;
+	},
+
+	save(id: string, content: JSONContent, title: string): void {
+		const docs = this.list();
+		const summary = docs.find((doc) => doc.id === id);
+		if (!summary) return;
+
+		// Skip writes that would only bump the timestamp
+		if (JSON.stringify(this.loadContent(id)) === JSON.stringify(content)) return;
+
+		this.saveContent(id, content);
+		if (!summary.customTitle) summary.title = title;
+		summary.updatedAt = Date.now();
+		this.saveList(docs);
+	},
+
+	rename(id: string, title: string, customTitle: boolean): void {
+		const docs = this.list();
+		const summary = docs.find((doc) => doc.id === id);
+		if (!summary) return;
+
+		summary.title = title;
+		summary.customTitle = customTitle;
+		this.saveList(docs);
+	},
+
+	remove(id: string): void {
+		this.saveList(this.list().filter((doc) => doc.id !== id));
+		storage.remove(STORAGE_KEYS.documentPrefix + id);
+		snapshotStorage.clear(id);
+
+		if (this.getActiveId() === id) {
+			storage.remove(STORAGE_KEYS.activeDocument);
+		}
+	},
+
+	getActiveId(): string | null {
+		return storage.get<string>(STORAGE_KEYS.activeDocument);
+	},
+
+	setActiveId(id: string): void {
+		storage.set(STORAGE_KEYS.activeDocument, id);
+	},
+};
+
+/**
+ * Version history storage helpers
+ *
+ * Each document has an index of its snapshots, newest first, and each
+ * snapshot's content lives under its own key so that taking a snapshot
+ * does not rewrite the others.
+ */
+export const snapshotStorage = {
+	list(documentKey: string): SnapshotSummary[] {
+		return versionedStorage.load<SnapshotSummary[]>(STORAGE_KEYS.snapshotPrefix + documentKey, "snapshots") ?? [];
+	},
+
+	/** Save the index, removing the content of snapshots no longer in it */
+	saveList(documentKey: string, snapshots: SnapshotSummary[]): void {
+		const kept = new Set(snapshots.map((snapshot) => snapshot.id));
+		for (const snapshot of this.list(documentKey)) {
+			if (!kept.has(snapshot.id)) storage.remove(STORAGE_KEYS.snapshotContentPrefix + snapshot.id);
+		}
+
+		versionedStorage.save(STORAGE_KEYS.snapshotPrefix + documentKey, "snapshots", snapshots);
+	},
+
+	loadContent(id: string): JSONContent | null {
+		return versionedStorage.load<JSONContent>(STORAGE_KEYS.snapshotContentPrefix + id, "snapshot");
+	},
+
+	saveContent(id: string, content: JSONContent): void {
+		versionedStorage.save(STORAGE_KEYS.snapshotContentPrefix + id, "snapshot", content, "prosemirror-json");
+	},
+
+	get(documentKey: string, id: string): Snapshot | null {
+		const summary = this.list(documentKey).find((snapshot) => snapshot.id === id);
+		const content = summary ? this.loadContent(id) : null;
+		return summary && content ? { ...summary, content } : null;
+	},
+
+	create(data: Omit<Snapshot, "id" | "size">): Snapshot {
+		return { id: createId(), ...data, size: getContentSize(data.content) };
+	},
+
+	clear(documentKey: string): void {
+		for (const snapshot of this.list(documentKey)) {
+			storage.remove(STORAGE_KEYS.snapshotContentPrefix + snapshot.id);
+		}
+		storage.remove(STORAGE_KEYS.snapshotPrefix + documentKey);
+	},
+};
+
+/**
+ * Image storage helpers
+ * Image bytes live in their own IndexedDB store, so they are only available
+ * once storage has switched to IndexedDB.
+ */
+export const imageStorage = {
+	isAvailable(): boolean {
+		return activeAdapter instanceof IndexedDBAdapter;
+	},
+
+	async save(blob: Blob): Promise<string> {
+		const id = createId();
+		await putImage(id, blob);
+		return id;
+	},
+
+	load(id: string): Promise<Blob | null> {
+		return getImage(id);
+	},
+};
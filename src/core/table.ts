@@ -0,0 +1,212 @@
+/**
+ * GFM table support with column alignment
+ * @module core/table
+ */
+
+import { findParentNode } from "@tiptap/core";
+import type { JSONContent, MarkdownRendererHelpers, MarkdownToken } from "@tiptap/core";
+import { Table } from "@tiptap/extension-table";
+import TableRow from "@tiptap/extension-table-row";
+import TableCell from "@tiptap/extension-table-cell";
+import TableHeader from "@tiptap/extension-table-header";
+import { TableMap } from "prosemirror-tables";
+
+export type ColumnAlignment = "left" | "center" | "right" | null;
+
+declare module "@tiptap/core" {
+	interface Commands<ReturnType> {
+		tableAlignment: {
+			/** Set the alignment of the column containing the selection */
+			setColumnAlignment: (align: ColumnAlignment) => ReturnType;
+		};
+	}
+}
+
+interface MarkdownTableCell {
+	tokens: MarkdownToken[];
+}
+
+type MarkdownTableToken = MarkdownToken & {
+	align?: ColumnAlignment[];
+	header?: MarkdownTableCell[];
+	rows?: MarkdownTableCell[][];
+};
+
+/**
+ * Alignment attribute shared by header and body cells
+ */
+const alignAttribute = {
+	align: {
+		default: null,
+		parseHTML: (element: HTMLElement) =>
+			element.style.textAlign || element.getAttribute("align") || null,
+		renderHTML: (attributes: { align?: ColumnAlignment; }) =>
+			attributes.align ? { style: `text-align: ${attributes.align}` } : {},
+	},
+};
+
+/**
+ * Render one cell as a single line of pipe-table text
+ */
+function renderCell(cell: JSONContent, h: MarkdownRendererHelpers): string {
+	const text = (cell.content ?? [])
+		.map((child) => h.renderChildren(child))
+		.join(" ")
+		.replace(/\s+/g, " ")
+		.trim();
+
+	// A bare pipe would end the cell early, and backslashes before one would
+	// be read as its escape
+	return text.replace(/\\(?=\\*\|)/g, "\\\\").replace(/\|/g, "\\|");
+}
+
+/**
+ * Read backslash escapes in a cell as the character they escape
+ * The markdown parser has no handler for escape tokens and drops them, which
+ * would lose the backslash written before a pipe.
+ */
+function keepEscapes(tokens: MarkdownToken[]): MarkdownToken[] {
+	return tokens.map((token) => {
+		if (token.type === "escape") return { type: "text", raw: token.raw, text: token.text };
+		return token.tokens ? { ...token, tokens: keepEscapes(token.tokens) } : token;
+	});
+}
+
+/**
+ * Build the delimiter row cell for a column
+ */
+function renderDelimiter(width: number, align: ColumnAlignment): string {
+	if (align === "center") return `:${"-".repeat(Math.max(1, width - 2))}:`;
+	if (align === "left") return `:${"-".repeat(Math.max(2, width - 1))}`;
+	if (align === "right") return `${"-".repeat(Math.max(2, width - 1))}:`;
+	return "-".repeat(Math.max(3, width));
+}
+
+/**
+ * Serialize a table node to a GFM pipe table
+ * Column alignment is taken from the cells of the first row.
+ */
+function renderTableMarkdown(node: JSONContent, h: MarkdownRendererHelpers): string {
+	const rows = (node.content ?? []).map((row) =>
+		(row.content ?? []).map((cell) => ({
+			text: renderCell(cell, h),
+			isHeader: cell.type === "tableHeader",
+			align: (cell.attrs?.align ?? null) as ColumnAlignment,
+		}))
+	);
+
+	const columnCount = Math.max(0, ...rows.map((row) => row.length));
+	if (columnCount === 0) return "";
+
+	const firstRow = rows[0] ?? [];
+	const hasHeader = firstRow.some((cell) => cell.isHeader);
+	const headerTexts = Array.from({ length: columnCount }, (_, i) => (hasHeader ? firstRow[i]?.text ?? "" : ""));
+	const bodyRows = hasHeader ? rows.slice(1) : rows;
+
+	const widths = Array.from({ length: columnCount }, (_, i) =>
+		Math.max(3, headerTexts[i]!.length, ...bodyRows.map((row) => row[i]?.text.length ?? 0))
+	);
+	const aligns = Array.from({ length: columnCount }, (_, i) => firstRow[i]?.align ?? null);
+
+	const pad = (text: string, i: number) => {
+		const width = widths[i]!;
+		if (aligns[i] === "right") return text.padStart(width);
+		if (aligns[i] === "center") {
+			const left = Math.floor((width - text.length) / 2);
+			return (" ".repeat(Math.max(0, left)) + text).padEnd(width);
+		}
+		return text.padEnd(width);
+	};
+	const line = (cells: string[]) => `| ${cells.join(" | ")} |`;
+
+	const out = [
+		line(headerTexts.map(pad)),
+		line(widths.map((width, i) => renderDelimiter(width, aligns[i] ?? null))),
+		...bodyRows.map((row) =>
+			line(Array.from({ length: columnCount }, (_, i) => pad(row[i]?.text ?? "", i)))
+		),
+	];
+
+	return out.join("\n");
+}
+
+/**
+ * Table node that keeps GFM column alignment through a markdown round trip
+ */
+export const MarkdownTable = Table.extend({
+	parseMarkdown: (token: MarkdownTableToken, h) => {
+		const align = token.align ?? [];
+		const rows: JSONContent[] = [];
+
+		const createCell = (type: string, cell: MarkdownTableCell, column: number) =>
+			h.createNode(type, { align: align[column] ?? null }, [
+				{ type: "paragraph", content: h.parseInline(keepEscapes(cell.tokens)) },
+			]);
+
+		if (token.header) {
+			rows.push(
+				h.createNode("tableRow", {}, token.header.map((cell, i) => createCell("tableHeader", cell, i)))
+			);
+		}
+
+		for (const row of token.rows ?? []) {
+			rows.push(h.createNode("tableRow", {}, row.map((cell, i) => createCell("tableCell", cell, i))));
+		}
+
+		return h.createNode("table", undefined, rows);
+	},
+
+	renderMarkdown: (node, h) => renderTableMarkdown(node, h),
+
+	addCommands() {
+		return {
+			...this.parent?.(),
+			setColumnAlignment: (align: ColumnAlignment) => ({ state, tr, dispatch }) => {
+				const table = findParentNode((node) => node.type.name === "table")(state.selection);
+				const cell = findParentNode((node) => node.type.spec.tableRole?.endsWith("cell") ?? false)(
+					state.selection
+				);
+				if (!table || !cell) return false;
+
+				const map = TableMap.get(table.node);
+				const column = map.colCount(cell.pos - table.start);
+				const rect = { left: column, right: column + 1, top: 0, bottom: map.height };
+
+				if (dispatch) {
+					for (const pos of map.cellsInRect(rect)) {
+						const cellNode = table.node.nodeAt(pos);
+						if (cellNode) {
+							tr.setNodeMarkup(table.start + pos, undefined, { ...cellNode.attrs, align });
+						}
+					}
+				}
+
+				return true;
+			},
+		};
+	},
+});
+
+export const MarkdownTableCell = TableCell.extend({
+	addAttributes() {
+		return { ...this.parent?.(), ...alignAttribute };
+	},
+});
+
+export const MarkdownTableHeader = TableHeader.extend({
+	addAttributes() {
+		return { ...this.parent?.(), ...alignAttribute };
+	},
+});
+
+/**
+ * All extensions needed for tables
+ */
+export function getTableExtensions() {
+	return [
+		MarkdownTable.configure({ resizable: false }),
+		TableRow,
+		MarkdownTableHeader,
+		MarkdownTableCell,
+	];
+}
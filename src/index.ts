@@ -7,7 +7,7 @@
 
 import "./styles.css";
 import { createEditor } from "./core";
-import { initToolbar, initSettings, initQuickActions } from "./ui";
+import { initToolbar, initSettings, initQuickActions, initDocuments, initTableControls, initBubbleMenu, initLinkPopover, initSlashMenu, initSearchBar, initOutline, initStatusBar, initDiffView, initSourceView, initFootnotes, initCommandPalette } from "./ui";
 
 /**
  * Initialize the blankmd editor
@@ -24,8 +24,20 @@ async function init(): Promise<void> {
 		onReady: (editor) => {
 			// Initialize UI components after editor is ready
 			initToolbar(editor);
+			initOutline(editor);
 			initSettings(editor);
 			initQuickActions(editor);
+			initDocuments(editor);
+			initTableControls(editor);
+			initBubbleMenu(editor);
+			initLinkPopover(editor);
+			initSlashMenu(editor);
+			initSearchBar(editor);
+			initStatusBar(editor);
+			initDiffView(editor);
+			initSourceView(editor);
+			initFootnotes(editor);
+			initCommandPalette(editor);
 		},
 	});
 }
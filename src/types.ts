@@ -3,7 +3,7 @@
  * @module types
  */
 
-import type { Editor } from "@tiptap/core";
+import type { Editor, JSONContent } from "@tiptap/core";
 
 // ============================================================================
 // Theme Types
@@ -54,6 +54,31 @@ export interface EditorSettings {
 	headingSpacing: number;
 	paddingHorizontal: number;
 	paddingTop: number;
+	showStatusBar: boolean;
+}
+
+/** Settings, custom theme and toolbar state, as exported to a file or kept in a profile */
+export interface SettingsBundle {
+	settings: EditorSettings;
+	customTheme: CustomTheme | null;
+	toolbar: {
+		visible: boolean;
+		/** Null for the default layout */
+		layout: ToolbarLayout | null;
+	};
+}
+
+/** Named settings bundle that can be switched to in one click */
+export interface SettingsProfile {
+	/** Unique identifier for the profile */
+	id: string;
+	/** Display name, e.g. "Writing" */
+	name: string;
+	bundle: SettingsBundle;
+	/** Creation time (ms since epoch) */
+	createdAt: number;
+	/** Last time the bundle or name changed (ms since epoch) */
+	updatedAt: number;
 }
 
 export interface FontOption {
@@ -76,7 +101,7 @@ export interface ToolbarButton {
 	action: (editor: Editor) => void;
 	/** Optional function to check if button should show active state */
 	isActive?: (editor: Editor) => boolean;
-	/** Optional keyboard shortcut hint */
+	/** Optional default key chord, e.g. "Cmd+B" (users can rebind it) */
 	shortcut?: string;
 }
 
@@ -87,6 +112,73 @@ export interface ToolbarSeparator {
 
 export type ToolbarItem = ToolbarButton | ToolbarSeparator;
 
+/** Where the toolbar sits: top right, bottom center, or wherever it was dragged */
+export type ToolbarPosition = "top" | "bottom" | "floating";
+
+export interface ToolbarLayoutItem {
+	/** Id of a toolbar button or separator */
+	id: string;
+	/** Hidden items keep their place so they can be shown again */
+	hidden: boolean;
+}
+
+/** User's arrangement of the toolbar, as edited in the settings panel */
+export interface ToolbarLayout {
+	/** Items in toolbar order */
+	items: ToolbarLayoutItem[];
+	position: ToolbarPosition;
+	/** Top left corner of the floating toolbar in px, or null for its default place */
+	floatingOffset: { x: number; y: number; } | null;
+}
+
+// ============================================================================
+// Slash Command Types
+// ============================================================================
+
+export interface SlashCommandItem {
+	/** Unique identifier for the command */
+	id: string;
+	/** Label shown in the menu */
+	title: string;
+	/** Optional secondary text shown under the title */
+	description?: string;
+	/** Optional SVG icon or text label */
+	icon?: string;
+	/** Extra words the filter matches on */
+	keywords?: string[];
+	/** Insert the block (the typed "/query" has already been removed) */
+	action: (editor: Editor) => void;
+}
+
+// ============================================================================
+// Command Types
+// ============================================================================
+
+export interface EditorCommand {
+	/** Unique identifier for the command */
+	id: string;
+	/** Label shown in the command palette */
+	title: string;
+	/** Optional group shown before the title, e.g. "Format" */
+	category?: string;
+	/** Optional SVG icon or text label */
+	icon?: string;
+	/** Optional default key chord, e.g. "Cmd+Shift+P" (users can rebind it) */
+	shortcut?: string;
+	/** Only run from a key chord pressed inside the editor, like Tiptap's own shortcuts */
+	editorOnly?: boolean;
+	/** Extra words the search matches on */
+	keywords?: string[];
+	/** Run the command */
+	action: (editor: Editor) => void;
+}
+
+/**
+ * Key chords chosen by the user, by command id
+ * `null` removes a command's default chord.
+ */
+export type KeybindingOverrides = Record<string, string | null>;
+
 // ============================================================================
 // Storage Types
 // ============================================================================
@@ -95,8 +187,77 @@ export interface StorageAdapter {
 	get<T>(key: string): T | null;
 	set<T>(key: string, value: T): void;
 	remove(key: string): void;
+	/** Read a value, resolving once the backing store has answered */
+	getAsync<T>(key: string): Promise<T | null>;
+	/** Write a value, rejecting if it could not be persisted */
+	setAsync<T>(key: string, value: T): Promise<void>;
+	/** Remove a value, resolving once the removal is persisted */
+	removeAsync(key: string): Promise<void>;
+}
+
+/** Shape of the data inside a storage envelope */
+export type StorageFormat = "json" | "prosemirror-json" | "markdown";
+
+/**
+ * Versioned wrapper around every persisted value
+ * `version` counts the migrations that have been applied to `data`.
+ */
+export interface StorageEnvelope<T = unknown> {
+	version: number;
+	format: StorageFormat;
+	data: T;
 }
 
+/** Groups of stored values that share a migration history */
+export type StorageSchema = "settings" | "customTheme" | "toolbar" | "toolbarLayout" | "outline" | "documents" | "document" | "content" | "snapshots" | "snapshot" | "viewMode" | "recentCommands" | "keybindings" | "settingsProfiles";
+
+/** Upgrade an envelope by one version */
+export type StorageMigration = (envelope: StorageEnvelope) => StorageEnvelope;
+
+/** Editor content together with the format it was stored in */
+export type StoredContent =
+	| { format: "markdown"; data: string; }
+	| { format: "prosemirror-json"; data: JSONContent; };
+
+export interface StoredDocument {
+	/** Unique identifier for the document */
+	id: string;
+	/** Display title, taken from the first heading unless renamed */
+	title: string;
+	/** Whether the title was set by hand instead of derived from the content */
+	customTitle: boolean;
+	/** Editor content as ProseMirror JSON */
+	content: JSONContent | null;
+	/** Creation time (ms since epoch) */
+	createdAt: number;
+	/** Last modification time (ms since epoch) */
+	updatedAt: number;
+}
+
+/** Document metadata without its content, as kept in the document index */
+export type DocumentSummary = Omit<StoredDocument, "content">;
+
+/** What caused a snapshot to be taken */
+export type SnapshotReason = "auto" | "manual" | "clear" | "reparse" | "restore";
+
+export interface Snapshot {
+	/** Unique identifier for the snapshot */
+	id: string;
+	/** Why the snapshot was taken */
+	reason: SnapshotReason;
+	/** Document title at the time of the snapshot */
+	title: string;
+	/** Editor content as ProseMirror JSON */
+	content: JSONContent;
+	/** Size of the stored content in bytes */
+	size: number;
+	/** Creation time (ms since epoch) */
+	createdAt: number;
+}
+
+/** Snapshot metadata without its content, as kept in the snapshot index */
+export type SnapshotSummary = Omit<Snapshot, "content">;
+
 export interface EditorState {
 	content: string;
 	filePath: string | null;
@@ -112,10 +273,18 @@ export interface ApiContentResponse {
 	filePath: string | null;
 }
 
+export interface ApiImageResponse {
+	/** Path of the saved image relative to the markdown file */
+	path: string;
+}
+
 // ============================================================================
 // UI Component Types
 // ============================================================================
 
+/** How the document is shown: rich text, markdown source, or both side by side */
+export type ViewMode = "rich" | "source" | "split";
+
 export interface StepperConfig {
 	value: number;
 	min: number;
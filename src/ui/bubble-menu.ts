@@ -0,0 +1,258 @@
+/**
+ * Bubble menu - formatting buttons shown above a text selection
+ * Uses the toolbar's button definitions, so shortcuts and active states match.
+ * @module ui/bubble-menu
+ */
+
+import type { Editor } from "@tiptap/core";
+import { NodeSelection } from "prosemirror-state";
+import type { ToolbarItem, ToolbarButton } from "../types";
+import { onKeybindingsChange, withKeybinding } from "../core/keybindings";
+import { defaultToolbarItems, toolbarItemCatalog } from "./toolbar";
+import { icons } from "./icons";
+import { createElement, createButton } from "./components";
+
+/** Gap between the selection and the menu */
+const MENU_OFFSET = 8;
+
+/**
+ * Pick toolbar buttons by id, in the given order
+ */
+function pickToolbarButtons(ids: string[]): ToolbarButton[] {
+	const buttons = [...defaultToolbarItems, ...toolbarItemCatalog].filter(
+		(item): item is ToolbarButton => !("type" in item)
+	);
+	return ids
+		.map((id) => buttons.find((button) => button.id === id))
+		.filter((button): button is ToolbarButton => button !== undefined);
+}
+
+/**
+ * Default bubble menu buttons
+ */
+export const defaultBubbleMenuItems: ToolbarItem[] = [
+	...pickToolbarButtons(["h1", "h2", "h3"]),
+	{ id: "sep-1", type: "separator" },
+	...pickToolbarButtons(["bold", "italic", "code", "link"]),
+];
+
+/**
+ * Block types offered by the "turn into" dropdown
+ */
+export const defaultTurnIntoItems: ToolbarButton[] = pickToolbarButtons([
+	"paragraph",
+	"h1",
+	"h2",
+	"h3",
+	"bulletList",
+	"orderedList",
+	"taskList",
+	"blockquote",
+	"codeBlock",
+]);
+
+/**
+ * Check if item is a separator
+ */
+function isSeparator(item: ToolbarItem): item is { id: string; type: "separator"; } {
+	return "type" in item && item.type === "separator";
+}
+
+/**
+ * Get the block type to show for the selection
+ * The first active item in the given order wins, with paragraph only used
+ * when nothing else is active.
+ */
+function getActiveBlock(editor: Editor, items: ToolbarButton[]): ToolbarButton | null {
+	const active = items.filter((item) => item.isActive?.(editor));
+	return active.find((item) => item.id !== "paragraph") ?? active[0] ?? null;
+}
+
+/**
+ * Create the bubble menu with its buttons and "turn into" dropdown
+ */
+function createBubbleMenu(editor: Editor, items: ToolbarItem[], turnIntoItems: ToolbarButton[]) {
+	const element = createElement("div", {
+		className: "md-bubble-menu hidden",
+		attributes: { role: "toolbar", "aria-label": "Formatting" },
+	});
+
+	const buttonElements = new Map<string, HTMLButtonElement>();
+	const turnIntoElements = new Map<string, HTMLButtonElement>();
+
+	const dropdown = createElement("div", { className: "md-bubble-menu-dropdown hidden", attributes: { role: "menu" } });
+	const turnIntoLabel = createElement("span", { textContent: "Turn into" });
+	const turnIntoBtn = createButton({
+		className: "md-bubble-menu-turn-into",
+		title: "Turn into",
+		onClick: (e) => {
+			e.preventDefault();
+			dropdown.classList.toggle("hidden");
+		},
+	});
+	turnIntoBtn.append(turnIntoLabel, createElement("span", { innerHTML: icons.chevronDown() }));
+
+	for (const item of turnIntoItems) {
+		const option = createButton({
+			className: "md-bubble-menu-option",
+			title: withKeybinding(item.title, item.id),
+			onClick: (e) => {
+				e.preventDefault();
+				dropdown.classList.add("hidden");
+				// The actions toggle, so choosing a type the block already has would undo it
+				if (item.isActive?.(editor)) return;
+				item.action(editor);
+			},
+		});
+		option.setAttribute("role", "menuitem");
+		option.append(
+			createElement("span", { className: "md-bubble-menu-option-icon", innerHTML: item.icon }),
+			createElement("span", { textContent: item.title })
+		);
+		turnIntoElements.set(item.id, option);
+		dropdown.appendChild(option);
+	}
+
+	if (turnIntoItems.length > 0) {
+		element.appendChild(createElement("div", { className: "md-bubble-menu-turn-into-wrap", children: [turnIntoBtn, dropdown] }));
+		if (items.length > 0) element.appendChild(createElement("span", { className: "md-toolbar-separator" }));
+	}
+
+	for (const item of items) {
+		if (isSeparator(item)) {
+			element.appendChild(createElement("span", { className: "md-toolbar-separator" }));
+			continue;
+		}
+
+		const button = createButton({
+			className: "md-toolbar-btn",
+			innerHTML: item.icon,
+			title: withKeybinding(item.title, item.id),
+			onClick: (e) => {
+				e.preventDefault();
+				item.action(editor);
+			},
+		});
+		buttonElements.set(item.id, button);
+		element.appendChild(button);
+	}
+
+	// Keep the editor selection while clicking
+	element.addEventListener("mousedown", (e) => e.preventDefault());
+
+	const updateActiveStates = () => {
+		for (const item of items) {
+			if (isSeparator(item) || !item.isActive) continue;
+			buttonElements.get(item.id)?.classList.toggle("active", item.isActive(editor));
+		}
+
+		const block = getActiveBlock(editor, turnIntoItems);
+		turnIntoLabel.textContent = block?.title ?? "Turn into";
+		for (const [id, option] of turnIntoElements) {
+			option.classList.toggle("active", id === block?.id);
+		}
+	};
+
+	onKeybindingsChange(() => {
+		for (const item of [...items, ...turnIntoItems]) {
+			if (isSeparator(item)) continue;
+			const button = buttonElements.get(item.id);
+			if (button) button.title = withKeybinding(item.title, item.id);
+			const option = turnIntoElements.get(item.id);
+			if (option) option.title = withKeybinding(item.title, item.id);
+		}
+	});
+
+	const isOpen = () => !element.classList.contains("hidden");
+
+	const hide = () => {
+		element.classList.add("hidden");
+		dropdown.classList.add("hidden");
+	};
+
+	const show = () => {
+		const { from, to } = editor.state.selection;
+		const start = editor.view.coordsAtPos(from);
+		const end = editor.view.coordsAtPos(to);
+
+		updateActiveStates();
+		element.classList.remove("hidden");
+
+		// Centered above the selection, or below it when there is no room at the top
+		const width = element.offsetWidth;
+		const height = element.offsetHeight;
+		const center = start.top === end.top ? (start.left + end.right) / 2 : start.left;
+		const left = Math.min(window.innerWidth - width - MENU_OFFSET, Math.max(MENU_OFFSET, center - width / 2));
+		const above = start.top - height - MENU_OFFSET;
+		const top = above >= MENU_OFFSET ? above : end.bottom + MENU_OFFSET;
+
+		element.style.left = `${left + window.scrollX}px`;
+		element.style.top = `${top + window.scrollY}px`;
+	};
+
+	return { element, show, hide, isOpen };
+}
+
+export interface BubbleMenuOptions {
+	/** Buttons shown in the menu (defaults to defaultBubbleMenuItems) */
+	items?: ToolbarItem[];
+	/** Block types in the "turn into" dropdown (defaults to defaultTurnIntoItems) */
+	turnIntoItems?: ToolbarButton[];
+}
+
+/**
+ * Initialize the bubble menu
+ */
+export function initBubbleMenu(editor: Editor, options: BubbleMenuOptions = {}): void {
+	const { items = defaultBubbleMenuItems, turnIntoItems = defaultTurnIntoItems } = options;
+	const menu = createBubbleMenu(editor, items, turnIntoItems);
+	document.body.appendChild(menu.element);
+
+	/** Wait for the mouse to be released before showing the menu for a dragged selection */
+	let selecting = false;
+
+	const update = () => {
+		const { selection } = editor.state;
+		const hasText =
+			!(selection instanceof NodeSelection) &&
+			!selection.empty &&
+			editor.state.doc.textBetween(selection.from, selection.to).trim() !== "";
+
+		if (!editor.isEditable || !editor.isFocused || !hasText || selecting) {
+			menu.hide();
+			return;
+		}
+
+		menu.show();
+	};
+
+	editor.on("selectionUpdate", update);
+	editor.on("update", () => {
+		if (menu.isOpen()) update();
+	});
+	editor.on("focus", update);
+	editor.on("blur", ({ event }) => {
+		// Clicking the menu should not hide it
+		if (event.relatedTarget instanceof Node && menu.element.contains(event.relatedTarget)) return;
+		menu.hide();
+	});
+
+	editor.view.dom.addEventListener("mousedown", () => {
+		selecting = true;
+		menu.hide();
+	});
+	document.addEventListener("mouseup", () => {
+		if (!selecting) return;
+		selecting = false;
+		// Let the editor finish updating the selection first
+		setTimeout(update, 0);
+	});
+
+	editor.view.dom.addEventListener("keydown", (e) => {
+		if (e.key === "Escape" && menu.isOpen()) menu.hide();
+	});
+
+	window.addEventListener("resize", () => {
+		if (menu.isOpen()) menu.show();
+	});
+}
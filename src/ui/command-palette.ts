@@ -0,0 +1,215 @@
+/**
+ * Command palette - searchable list of every registered command (Cmd+Shift+P)
+ * @module ui/command-palette
+ */
+
+import type { Editor } from "@tiptap/core";
+import { registerCommands, runCommand, searchCommands } from "../core/commands";
+import type { CommandMatch } from "../core/commands";
+import { getKeybinding } from "../core/keybindings";
+import { createElement } from "./components";
+
+/** The palette created by initCommandPalette, opened by openCommandPalette */
+let activePalette: { open: () => void } | null = null;
+
+/**
+ * Render a label with its matched characters highlighted
+ */
+function createHighlightedLabel(label: string, positions: number[]): HTMLSpanElement {
+	const element = createElement("span", { className: "md-command-palette-label" });
+	const matched = new Set(positions);
+	let run = "";
+	let runMatched = false;
+
+	const flush = () => {
+		if (!run) return;
+		element.appendChild(runMatched ? createElement("mark", { textContent: run }) : document.createTextNode(run));
+		run = "";
+	};
+
+	Array.from(label).forEach((char, i) => {
+		if (matched.has(i) !== runMatched) {
+			flush();
+			runMatched = matched.has(i);
+		}
+		run += char;
+	});
+	flush();
+
+	return element;
+}
+
+/**
+ * Create a single result row
+ */
+function createResultRow(match: CommandMatch, isSelected: boolean): HTMLDivElement {
+	const { command, label, positions } = match;
+	const row = createElement("div", {
+		className: `md-command-palette-item${isSelected ? " selected" : ""}`,
+		attributes: { role: "option", "aria-selected": String(isSelected) },
+	});
+
+	row.appendChild(createElement("span", { className: "md-command-palette-icon", innerHTML: command.icon ?? "" }));
+	row.appendChild(createHighlightedLabel(label, positions));
+
+	const chord = getKeybinding(command.id);
+	if (chord) {
+		row.appendChild(createElement("kbd", { className: "md-command-palette-shortcut", textContent: chord }));
+	}
+
+	return row;
+}
+
+/**
+ * Create the palette overlay with its search input and result list
+ */
+function createCommandPalette(editor: Editor) {
+	const input = createElement("input", {
+		className: "md-command-palette-input",
+		attributes: {
+			type: "text",
+			placeholder: "Type a command…",
+			"aria-label": "Search commands",
+			spellcheck: "false",
+			autocomplete: "off",
+		},
+	});
+	const list = createElement("div", { className: "md-command-palette-list", attributes: { role: "listbox" } });
+	const dialog = createElement("div", {
+		className: "md-command-palette-dialog",
+		attributes: { role: "dialog", "aria-label": "Command palette" },
+		children: [input, list],
+	});
+	const element = createElement("div", { className: "md-command-palette hidden", children: [dialog] });
+
+	let matches: CommandMatch[] = [];
+	let selectedIndex = 0;
+	let previousFocus: HTMLElement | null = null;
+
+	const isOpen = () => !element.classList.contains("hidden");
+
+	const render = () => {
+		list.innerHTML = "";
+
+		if (matches.length === 0) {
+			list.appendChild(createElement("div", { className: "md-command-palette-empty", textContent: "No matching commands" }));
+			return;
+		}
+
+		matches.forEach((match, index) => {
+			const row = createResultRow(match, index === selectedIndex);
+
+			// Keep focus in the input while clicking
+			row.addEventListener("mousedown", (e) => e.preventDefault());
+			// Panels opened by the command would otherwise see this as a click outside them
+			row.addEventListener("click", (e) => {
+				e.stopPropagation();
+				run(index);
+			});
+			row.addEventListener("mousemove", () => {
+				if (index !== selectedIndex) select(index);
+			});
+
+			list.appendChild(row);
+		});
+
+		list.querySelector(".selected")?.scrollIntoView({ block: "nearest" });
+	};
+
+	const search = () => {
+		matches = searchCommands(input.value);
+		selectedIndex = 0;
+		render();
+	};
+
+	const select = (index: number) => {
+		if (matches.length === 0) return;
+		selectedIndex = (index + matches.length) % matches.length;
+		render();
+	};
+
+	const open = () => {
+		if (isOpen()) {
+			input.select();
+			return;
+		}
+
+		previousFocus = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+		input.value = "";
+		element.classList.remove("hidden");
+		search();
+		input.focus();
+	};
+
+	const close = () => {
+		if (!isOpen()) return;
+		element.classList.add("hidden");
+
+		// Give focus back first so commands act on the editor selection
+		if (previousFocus?.isConnected) previousFocus.focus();
+		previousFocus = null;
+	};
+
+	const run = (index: number) => {
+		const match = matches[index];
+		if (!match) return;
+		close();
+		runCommand(editor, match.command.id);
+	};
+
+	input.addEventListener("input", search);
+
+	input.addEventListener("keydown", (e) => {
+		if (e.key === "ArrowDown") {
+			e.preventDefault();
+			select(selectedIndex + 1);
+		} else if (e.key === "ArrowUp") {
+			e.preventDefault();
+			select(selectedIndex - 1);
+		} else if (e.key === "Enter" && !e.isComposing) {
+			e.preventDefault();
+			run(selectedIndex);
+		} else if (e.key === "Escape") {
+			e.preventDefault();
+			close();
+		}
+	});
+
+	// Close when clicking the backdrop
+	element.addEventListener("mousedown", (e) => {
+		if (e.target === element) close();
+	});
+
+	return { element, open, close, isOpen };
+}
+
+/**
+ * Open the command palette
+ */
+export function openCommandPalette(): void {
+	activePalette?.open();
+}
+
+/**
+ * Initialize the command palette
+ */
+export function initCommandPalette(editor: Editor): void {
+	const palette = createCommandPalette(editor);
+	activePalette = palette;
+	document.body.appendChild(palette.element);
+
+	registerCommands({
+		id: "command-palette",
+		title: "Command Palette",
+		category: "View",
+		shortcut: "Cmd+Shift+P",
+		keywords: ["commands", "actions"],
+		action: () => {
+			if (palette.isOpen()) {
+				palette.close();
+			} else {
+				palette.open();
+			}
+		},
+	});
+}
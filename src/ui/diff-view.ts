@@ -0,0 +1,307 @@
+/**
+ * Diff view - review changes against the file on disk or a snapshot
+ * @module ui/diff-view
+ */
+
+import type { Editor } from "@tiptap/core";
+import type { DiffSource, DiffHunk, DiffLine } from "../core/diff";
+import { diffLines, acceptHunk, revertHunk, loadDiffBase } from "../core/diff";
+import { getFileState } from "../core/editor";
+import { listSnapshots, getSnapshot } from "../core/snapshots";
+import { icons } from "./icons";
+import { createElement, createButton } from "./components";
+
+/** Unchanged lines shown around each hunk */
+const CONTEXT_LINES = 3;
+
+interface DiffView {
+	element: HTMLDivElement;
+	open: (source: DiffSource | null) => Promise<void>;
+	close: () => void;
+	isOpen: () => boolean;
+	refresh: () => void;
+}
+
+let activeDiffView: DiffView | null = null;
+
+const linePrefixes: Record<DiffLine["type"], string> = {
+	equal: " ",
+	added: "+",
+	removed: "-",
+};
+
+/**
+ * Pick what to compare with when no source is given
+ * The file on disk in file mode, otherwise the latest snapshot.
+ */
+function getDefaultSource(): DiffSource | null {
+	if (getFileState().isEditingFile) return { type: "file" };
+
+	const latest = listSnapshots()[0];
+	return latest ? { type: "snapshot", id: latest.id } : null;
+}
+
+/**
+ * Describe the source in the view header
+ */
+function describeSource(source: DiffSource): string {
+	if (source.type === "file") {
+		return `Changes since last save${getFileState().filePath ? ` · ${getFileState().filePath}` : ""}`;
+	}
+
+	const snapshot = getSnapshot(source.id);
+	return snapshot ? `Changes since ${new Date(snapshot.createdAt).toLocaleString()}` : "Changes since snapshot";
+}
+
+/**
+ * Serialize the editor content to markdown
+ */
+function getCurrentMarkdown(editor: Editor): string {
+	return editor.storage.markdown.manager.serialize(editor.getJSON());
+}
+
+/**
+ * Create a diff line
+ */
+function createLine(line: DiffLine): HTMLDivElement {
+	return createElement("div", {
+		className: `md-diff-line md-diff-${line.type}`,
+		textContent: `${linePrefixes[line.type]} ${line.text}`,
+	});
+}
+
+/**
+ * Create the header of a hunk with its actions
+ */
+function createHunkHeader(hunk: DiffHunk, onAccept: () => void, onRevert: () => void): HTMLDivElement {
+	const header = createElement("div", { className: "md-diff-hunk-header" });
+
+	header.appendChild(
+		createElement("span", {
+			className: "md-diff-hunk-range",
+			textContent: `@@ -${hunk.oldStart + 1},${hunk.oldLines.length} +${hunk.newStart + 1},${hunk.newLines.length} @@`,
+		})
+	);
+	header.appendChild(
+		createButton({
+			className: "md-diff-hunk-btn",
+			innerHTML: "Accept",
+			title: "Keep this change",
+			onClick: onAccept,
+		})
+	);
+	header.appendChild(
+		createButton({
+			className: "md-diff-hunk-btn",
+			innerHTML: "Revert",
+			title: "Undo this change in the document",
+			onClick: onRevert,
+		})
+	);
+
+	return header;
+}
+
+/**
+ * Render a diff, collapsing unchanged lines away from hunks
+ */
+function renderDiff(
+	container: HTMLElement,
+	lines: DiffLine[],
+	hunks: DiffHunk[],
+	onAccept: (hunk: DiffHunk) => void,
+	onRevert: (hunk: DiffHunk) => void
+): void {
+	// Distance of each line to the nearest changed line
+	const distance = lines.map(() => Infinity);
+	let last = -Infinity;
+	lines.forEach((line, i) => {
+		if (line.hunk !== null) last = i;
+		distance[i] = i - last;
+	});
+	last = Infinity;
+	for (let i = lines.length - 1; i >= 0; i--) {
+		if (lines[i]!.hunk !== null) last = i;
+		distance[i] = Math.min(distance[i]!, last - i);
+	}
+
+	let skipped = 0;
+	let currentHunk: number | null = null;
+
+	const flushSkipped = () => {
+		if (skipped === 0) return;
+		container.appendChild(
+			createElement("div", {
+				className: "md-diff-skip",
+				textContent: `⋯ ${skipped} unchanged ${skipped === 1 ? "line" : "lines"}`,
+			})
+		);
+		skipped = 0;
+	};
+
+	lines.forEach((line, i) => {
+		if (line.hunk === null && distance[i]! > CONTEXT_LINES) {
+			skipped++;
+			return;
+		}
+		flushSkipped();
+
+		if (line.hunk !== null && line.hunk !== currentHunk) {
+			const hunk = hunks[line.hunk]!;
+			container.appendChild(
+				createHunkHeader(
+					hunk,
+					() => onAccept(hunk),
+					() => onRevert(hunk)
+				)
+			);
+		}
+		currentHunk = line.hunk;
+
+		container.appendChild(createLine(line));
+	});
+
+	flushSkipped();
+}
+
+/**
+ * Create the diff view overlay
+ */
+function createDiffView(editor: Editor): DiffView {
+	const element = createElement("div", { className: "md-diff-overlay hidden" });
+	const panel = createElement("div", { className: "md-diff-panel" });
+
+	const header = createElement("div", { className: "md-settings-panel-header" });
+	const title = createElement("h3", { textContent: "Changes" });
+	const summary = createElement("span", { className: "md-diff-summary" });
+	header.appendChild(title);
+	header.appendChild(summary);
+	header.appendChild(
+		createButton({
+			className: "md-settings-panel-close",
+			innerHTML: icons.close(),
+			title: "Close (Escape)",
+			onClick: () => close(),
+		})
+	);
+
+	const body = createElement("div", { className: "md-diff-body" });
+	panel.appendChild(header);
+	panel.appendChild(body);
+	element.appendChild(panel);
+
+	// The base moves forward as hunks are accepted
+	let base: string | null = null;
+	let source: DiffSource | null = null;
+
+	const showMessage = (text: string) => {
+		body.innerHTML = "";
+		summary.textContent = "";
+		body.appendChild(createElement("div", { className: "md-diff-empty", textContent: text }));
+	};
+
+	const refresh = () => {
+		if (base === null) return;
+
+		const current = getCurrentMarkdown(editor);
+		const { lines, hunks } = diffLines(base, current);
+
+		if (hunks.length === 0) {
+			showMessage("No changes");
+			return;
+		}
+
+		const added = lines.filter((line) => line.type === "added").length;
+		const removed = lines.filter((line) => line.type === "removed").length;
+		summary.textContent = `+${added} −${removed}`;
+
+		body.innerHTML = "";
+		renderDiff(
+			body,
+			lines,
+			hunks,
+			(hunk) => {
+				base = acceptHunk(base!, hunk);
+				refresh();
+			},
+			(hunk) => {
+				// Undoable like any other edit, the update listener re-renders
+				const reverted = revertHunk(current, hunk);
+				editor.commands.setContent(editor.storage.markdown.manager.parse(reverted));
+			}
+		);
+	};
+
+	const open = async (requested: DiffSource | null) => {
+		source = requested ?? getDefaultSource();
+		base = null;
+		element.classList.remove("hidden");
+
+		if (!source) {
+			title.textContent = "Changes";
+			showMessage("There is no saved version to compare with yet");
+			return;
+		}
+
+		title.textContent = describeSource(source);
+		showMessage("Loading…");
+
+		const opened = source;
+		const loaded = await loadDiffBase(editor, opened);
+		// Another source may have been opened while loading
+		if (source !== opened) return;
+
+		if (loaded === null) {
+			showMessage(opened.type === "file" ? "The file could not be loaded" : "This version no longer exists");
+			return;
+		}
+
+		base = loaded;
+		refresh();
+	};
+
+	const close = () => {
+		element.classList.add("hidden");
+		base = null;
+		source = null;
+	};
+
+	const isOpen = () => !element.classList.contains("hidden");
+
+	// Clicking the backdrop closes the view
+	element.addEventListener("click", (e) => {
+		if (e.target === element) close();
+	});
+
+	return { element, open, close, isOpen, refresh };
+}
+
+/**
+ * Open the diff view
+ * Without a source, compares with the file on disk or the latest snapshot.
+ */
+export function openDiffView(source: DiffSource | null = null): void {
+	if (!activeDiffView) return;
+
+	activeDiffView.open(source).catch((err) => console.error("Diff failed:", err));
+}
+
+/**
+ * Initialize the diff view
+ */
+export function initDiffView(editor: Editor): void {
+	const view = createDiffView(editor);
+	activeDiffView = view;
+	document.body.appendChild(view.element);
+
+	editor.on("update", () => {
+		if (view.isOpen()) view.refresh();
+	});
+
+	document.addEventListener("keydown", (e) => {
+		if (e.key === "Escape" && view.isOpen()) {
+			e.preventDefault();
+			view.close();
+		}
+	});
+}
@@ -0,0 +1,220 @@
+/**
+ * Document switcher - list, create and manage workspace documents
+ * @module ui/documents
+ */
+
+import type { Editor } from "@tiptap/core";
+import type { DocumentSummary } from "../types";
+import { getFileState } from "../core/editor";
+import {
+	listDocuments,
+	getActiveDocumentId,
+	openDocument,
+	createNewDocument,
+	duplicateDocument,
+	renameDocument,
+	deleteDocument,
+} from "../core/documents";
+import { registerCommands } from "../core/commands";
+import { icons } from "./icons";
+import { createElement, createButton } from "./components";
+
+/**
+ * Format a timestamp relative to now
+ */
+function formatRelativeTime(timestamp: number): string {
+	const seconds = Math.round((Date.now() - timestamp) / 1000);
+	if (seconds < 60) return "just now";
+
+	const minutes = Math.round(seconds / 60);
+	if (minutes < 60) return `${minutes}m ago`;
+
+	const hours = Math.round(minutes / 60);
+	if (hours < 24) return `${hours}h ago`;
+
+	return new Date(timestamp).toLocaleDateString();
+}
+
+/**
+ * Create the document switcher button
+ */
+function createDocumentsButton(): HTMLButtonElement {
+	return createButton({
+		className: "md-documents-btn",
+		innerHTML: icons.files(),
+		title: "Documents",
+	});
+}
+
+/**
+ * Create a single row of the document list
+ */
+function createDocumentRow(
+	doc: DocumentSummary,
+	editor: Editor,
+	isActive: boolean,
+	callbacks: { onChange: () => void; onOpen: () => void; }
+): HTMLDivElement {
+	const { onChange, onOpen } = callbacks;
+
+	const row = createElement("div", {
+		className: `md-documents-item${isActive ? " active" : ""}`,
+	});
+
+	const openBtn = createElement("button", {
+		className: "md-documents-open",
+		attributes: { type: "button", title: doc.title },
+		children: [
+			createElement("span", { className: "md-documents-title", textContent: doc.title }),
+			createElement("span", {
+				className: "md-documents-meta",
+				textContent: formatRelativeTime(doc.updatedAt),
+			}),
+		],
+	});
+	openBtn.addEventListener("click", () => {
+		if (!isActive) openDocument(editor, doc.id);
+		onOpen();
+	});
+
+	const actions = createElement("div", { className: "md-documents-actions" });
+
+	actions.appendChild(
+		createButton({
+			className: "md-documents-action",
+			innerHTML: icons.edit({ size: 16 }),
+			title: "Rename",
+			onClick: () => {
+				const title = prompt("Rename document (leave empty to use the first heading)", doc.title);
+				if (title === null) return;
+				renameDocument(editor, doc.id, title);
+				onChange();
+			},
+		})
+	);
+
+	actions.appendChild(
+		createButton({
+			className: "md-documents-action",
+			innerHTML: icons.copy(),
+			title: "Duplicate",
+			onClick: () => {
+				duplicateDocument(editor, doc.id);
+				onChange();
+			},
+		})
+	);
+
+	actions.appendChild(
+		createButton({
+			className: "md-documents-action md-danger",
+			innerHTML: icons.trash(),
+			title: "Delete",
+			onClick: () => {
+				if (!confirm(`Delete "${doc.title}"?`)) return;
+				deleteDocument(editor, doc.id);
+				onChange();
+			},
+		})
+	);
+
+	row.appendChild(openBtn);
+	row.appendChild(actions);
+
+	return row;
+}
+
+/**
+ * Create the documents panel
+ */
+function createDocumentsPanel(editor: Editor): {
+	panel: HTMLDivElement;
+	render: () => void;
+} {
+	const panel = createElement("div", { className: "md-documents-panel hidden" });
+
+	const close = () => panel.classList.add("hidden");
+
+	const header = createElement("div", { className: "md-settings-panel-header" });
+	header.appendChild(createElement("h3", { textContent: "Documents" }));
+	header.appendChild(
+		createButton({
+			className: "md-documents-new",
+			innerHTML: `${icons.plus({ size: 16 })}<span>New</span>`,
+			title: "New Document",
+			onClick: () => {
+				createNewDocument(editor);
+				close();
+			},
+		})
+	);
+
+	const list = createElement("div", { className: "md-documents-list" });
+
+	const render = () => {
+		list.innerHTML = "";
+		const activeId = getActiveDocumentId();
+
+		for (const doc of listDocuments()) {
+			list.appendChild(
+				createDocumentRow(doc, editor, doc.id === activeId, { onChange: render, onOpen: close })
+			);
+		}
+	};
+
+	panel.appendChild(header);
+	panel.appendChild(list);
+
+	return { panel, render };
+}
+
+/**
+ * Initialize the document switcher UI
+ * Not shown when editing a file through the API, which has no workspace.
+ */
+export function initDocuments(editor: Editor): void {
+	if (getFileState().isEditingFile) return;
+
+	const btn = createDocumentsButton();
+	const { panel, render } = createDocumentsPanel(editor);
+
+	document.body.appendChild(btn);
+	document.body.appendChild(panel);
+
+	registerCommands(
+		{
+			id: "new-document",
+			title: "New Document",
+			category: "File",
+			icon: icons.plus(),
+			action: () => createNewDocument(editor),
+		},
+		{
+			id: "show-documents",
+			title: "Show Documents",
+			category: "File",
+			icon: icons.files(),
+			keywords: ["switch", "open"],
+			action: () => {
+				panel.classList.remove("hidden");
+				render();
+			},
+		}
+	);
+
+	btn.addEventListener("click", (e) => {
+		e.stopPropagation();
+		const nowHidden = panel.classList.toggle("hidden");
+		if (!nowHidden) render();
+	});
+
+	// Close panel when clicking outside
+	document.addEventListener("click", (e) => {
+		const target = e.target as Node;
+		// Rows re-render on click, so a detached target still came from inside the panel
+		if (!target.isConnected) return;
+		if (!panel.contains(target) && !btn.contains(target)) {
+			panel.classList.add("hidden");
+		}
+	});
+}
@@ -0,0 +1,120 @@
+/**
+ * Footnote preview on hover and jumping between references and definitions
+ * @module ui/footnotes
+ */
+
+import type { Editor } from "@tiptap/core";
+import { DOMSerializer } from "prosemirror-model";
+import { TextSelection } from "prosemirror-state";
+import type { Selection } from "prosemirror-state";
+import { findFootnoteDefinition, findFootnoteReferences } from "../core/footnotes";
+import { createElement } from "./components";
+
+/**
+ * Get the label of the footnote node an element belongs to
+ */
+function getFootnoteLabel(editor: Editor, element: HTMLElement): { label: string; pos: number } | null {
+	const { view, state } = editor;
+	const inside = view.posAtDOM(element, 0);
+
+	// Leaf references start at the position, definitions just before their content
+	for (const pos of [inside, inside - 1]) {
+		const node = pos >= 0 ? state.doc.nodeAt(pos) : null;
+		if (node && view.nodeDOM(pos) === element) return { label: node.attrs.label as string, pos };
+	}
+	return null;
+}
+
+/**
+ * Move the cursor to a position and bring it into view
+ */
+function jumpTo(editor: Editor, selection: Selection): void {
+	editor.view.dispatch(editor.state.tr.setSelection(selection));
+	editor.view.focus();
+
+	const { node } = editor.view.domAtPos(selection.from);
+	const element = node instanceof HTMLElement ? node : node.parentElement;
+	element?.scrollIntoView({ behavior: "smooth", block: "center" });
+}
+
+/**
+ * Initialize footnote previews and navigation
+ */
+export function initFootnotes(editor: Editor): void {
+	const preview = createElement("div", { className: "md-footnote-preview tiptap hidden" });
+	document.body.appendChild(preview);
+
+	// The reference last jumped from, so the way back returns to it
+	let returnPos: number | null = null;
+
+	const hidePreview = () => preview.classList.add("hidden");
+
+	const showPreview = (refElement: HTMLElement) => {
+		const footnote = getFootnoteLabel(editor, refElement);
+		if (!footnote) return;
+
+		const definition = findFootnoteDefinition(editor.state.doc, footnote.label);
+		preview.innerHTML = "";
+		if (definition) {
+			preview.appendChild(DOMSerializer.fromSchema(editor.schema).serializeFragment(definition.node.content));
+		} else {
+			preview.appendChild(
+				createElement("span", { className: "md-footnote-preview-missing", textContent: `No definition for [^${footnote.label}]` })
+			);
+		}
+
+		const rect = refElement.getBoundingClientRect();
+		preview.style.top = `${rect.bottom + window.scrollY + 6}px`;
+		preview.style.left = `${Math.max(8, Math.min(rect.left + window.scrollX, window.innerWidth - 368))}px`;
+		preview.classList.remove("hidden");
+	};
+
+	const editorDom = editor.view.dom;
+
+	editorDom.addEventListener("mouseover", (e) => {
+		const ref = (e.target as HTMLElement).closest<HTMLElement>(".md-footnote-ref");
+		if (ref) showPreview(ref);
+	});
+
+	editorDom.addEventListener("mouseout", (e) => {
+		const ref = (e.target as HTMLElement).closest(".md-footnote-ref");
+		if (ref && !ref.contains(e.relatedTarget as Node)) hidePreview();
+	});
+
+	editorDom.addEventListener("click", (e) => {
+		const target = e.target as HTMLElement;
+		const { doc } = editor.state;
+
+		const ref = target.closest<HTMLElement>(".md-footnote-ref");
+		if (ref) {
+			const footnote = getFootnoteLabel(editor, ref);
+			const definition = footnote && findFootnoteDefinition(doc, footnote.label);
+			if (!footnote || !definition) return;
+
+			hidePreview();
+			returnPos = footnote.pos;
+			jumpTo(editor, TextSelection.near(doc.resolve(definition.pos + 1)));
+			return;
+		}
+
+		const back = target.closest<HTMLElement>(".md-footnote-backref");
+		const definitionElement = back?.closest<HTMLElement>(".md-footnote-def");
+		if (!definitionElement) return;
+
+		const footnote = getFootnoteLabel(editor, definitionElement);
+		if (!footnote) return;
+
+		const references = findFootnoteReferences(doc, footnote.label);
+		const pos = returnPos !== null && references.includes(returnPos) ? returnPos : references[0];
+		if (pos === undefined) return;
+
+		returnPos = null;
+		jumpTo(editor, TextSelection.create(doc, pos + 1));
+	});
+
+	// Positions go stale once the document changes
+	editor.on("update", ({ transaction }) => {
+		if (returnPos !== null) returnPos = transaction.mapping.map(returnPos);
+		hidePreview();
+	});
+}
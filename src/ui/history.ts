@@ -0,0 +1,178 @@
+/**
+ * Version history views for the settings panel
+ * @module ui/history
+ */
+
+import type { Editor } from "@tiptap/core";
+import { DOMSerializer, Node as ProseMirrorNode } from "prosemirror-model";
+import type { SnapshotReason, SnapshotSummary } from "../types";
+import { listSnapshots, getSnapshot, takeSnapshot, restoreSnapshot, deleteSnapshot } from "../core/snapshots";
+import { openDiffView } from "./diff-view";
+import { icons } from "./icons";
+import { createElement, createButton, createSection, createBackButton } from "./components";
+
+const reasonLabels: Record<SnapshotReason, string> = {
+	auto: "Autosave",
+	manual: "Saved version",
+	clear: "Before clear",
+	reparse: "Before reparse",
+	restore: "Before restore",
+};
+
+/**
+ * Format a snapshot time, with the date only when it is not today
+ */
+function formatSnapshotTime(createdAt: number): string {
+	const date = new Date(createdAt);
+	const time = date.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+
+	if (date.toDateString() === new Date().toDateString()) return time;
+	return `${date.toLocaleDateString(undefined, { month: "short", day: "numeric" })}, ${time}`;
+}
+
+/**
+ * Create a row for a snapshot in the history list
+ */
+function createSnapshotRow(
+	snapshot: SnapshotSummary,
+	onOpen: () => void,
+	onDelete: () => void
+): HTMLDivElement {
+	const row = createElement("div", {
+		className: `md-snapshot-item${snapshot.reason === "manual" ? " manual" : ""}`,
+		attributes: { title: snapshot.title },
+	});
+
+	const info = createElement("div", {
+		className: "md-snapshot-info",
+		children: [
+			createElement("span", { className: "md-snapshot-time", textContent: formatSnapshotTime(snapshot.createdAt) }),
+			createElement("span", { className: "md-snapshot-reason", textContent: reasonLabels[snapshot.reason] }),
+		],
+	});
+	info.addEventListener("click", onOpen);
+
+	row.appendChild(info);
+	row.appendChild(
+		createButton({
+			className: "md-snapshot-delete",
+			innerHTML: icons.trash(),
+			title: "Delete Version",
+			onClick: onDelete,
+		})
+	);
+
+	return row;
+}
+
+/**
+ * Create the version history view
+ */
+export function createHistoryView(
+	editor: Editor,
+	options: { onBack: () => void; onOpen: (id: string) => void }
+): HTMLDivElement {
+	const view = createElement("div", { className: "md-history-view" });
+	view.appendChild(createBackButton({ label: "Version History", onClick: options.onBack }));
+
+	const list = createElement("div", { className: "md-snapshot-list" });
+
+	const render = () => {
+		const snapshots = listSnapshots();
+		list.innerHTML = "";
+
+		if (snapshots.length === 0) {
+			list.appendChild(
+				createElement("div", { className: "md-snapshot-empty", textContent: "No versions yet" })
+			);
+		}
+
+		for (const snapshot of snapshots) {
+			list.appendChild(
+				createSnapshotRow(
+					snapshot,
+					() => options.onOpen(snapshot.id),
+					() => {
+						deleteSnapshot(snapshot.id);
+						render();
+					}
+				)
+			);
+		}
+	};
+
+	const saveBtn = createElement("button", {
+		className: "md-settings-action-btn md-customize-btn",
+		textContent: "Save Version",
+		attributes: { type: "button" },
+	});
+	saveBtn.addEventListener("click", () => {
+		takeSnapshot(editor, "manual");
+		render();
+	});
+
+	const section = createSection();
+	section.appendChild(saveBtn);
+	section.appendChild(list);
+	view.appendChild(section);
+
+	render();
+	return view;
+}
+
+/**
+ * Create the preview of a single snapshot
+ */
+export function createSnapshotPreviewView(
+	editor: Editor,
+	id: string,
+	options: { onBack: () => void; onRestore: () => void }
+): HTMLDivElement {
+	const view = createElement("div", { className: "md-history-view" });
+	view.appendChild(createBackButton({ label: "Version History", onClick: options.onBack }));
+
+	const snapshot = getSnapshot(id);
+	if (!snapshot) {
+		view.appendChild(createElement("div", { className: "md-snapshot-empty", textContent: "This version no longer exists" }));
+		return view;
+	}
+
+	view.appendChild(
+		createElement("div", {
+			className: "md-snapshot-heading",
+			textContent: `${reasonLabels[snapshot.reason]} · ${formatSnapshotTime(snapshot.createdAt)}`,
+		})
+	);
+
+	// Render with the editor schema so the preview looks like the document
+	const preview = createElement("div", { className: "tiptap md-snapshot-preview" });
+	try {
+		const doc = ProseMirrorNode.fromJSON(editor.schema, snapshot.content);
+		preview.appendChild(DOMSerializer.fromSchema(editor.schema).serializeFragment(doc.content));
+	} catch (err) {
+		console.error("Snapshot preview failed:", err);
+		preview.textContent = "This version cannot be previewed";
+	}
+	view.appendChild(preview);
+
+	const restoreBtn = createElement("button", {
+		className: "md-settings-action-btn md-customize-btn",
+		textContent: "Restore This Version",
+		attributes: { type: "button", title: "Replace the document with this version (undo with Cmd+Z)" },
+	});
+	restoreBtn.addEventListener("click", () => {
+		restoreSnapshot(editor, snapshot.id);
+		options.onRestore();
+	});
+	view.appendChild(restoreBtn);
+
+	const compareBtn = createElement("button", {
+		className: "md-settings-action-btn",
+		textContent: "Compare with Current",
+		attributes: { type: "button" },
+	});
+	compareBtn.addEventListener("click", () => openDiffView({ type: "snapshot", id: snapshot.id }));
+	view.appendChild(compareBtn);
+
+	return view;
+}
@@ -41,6 +41,18 @@ export const icons = {
 			opts.className
 		),
 
+	strike: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
+			`<path d="M16 4H9a3 3 0 0 0-2.83 4"></path><path d="M14 12a4 4 0 0 1 0 8H6"></path><line x1="4" y1="12" x2="20" y2="12"></line>`,
+			opts.className
+		),
+
+	clearFormatting: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
+			`<path d="M4 7V4h16v3"></path><path d="M5 20h6"></path><path d="M13 4 8 20"></path><line x1="15" y1="15" x2="20" y2="20"></line><line x1="20" y1="15" x2="15" y2="20"></line>`,
+			opts.className
+		),
+
 	code: (opts: IconOptions = {}) =>
 		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
 			`<path d="M10 9.5L8 12l2 2.5"></path><path d="M14 9.5l2 2.5-2 2.5"></path><rect x="2" y="4" width="20" height="16" rx="2"></rect>`,
@@ -53,6 +65,30 @@ export const icons = {
 			opts.className
 		),
 
+	image: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
+			`<rect x="3" y="3" width="18" height="18" rx="2"></rect><circle cx="8.5" cy="8.5" r="1.5"></circle><polyline points="21 15 16 10 5 21"></polyline>`,
+			opts.className
+		),
+
+	link: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
+			`<path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71"></path><path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71"></path>`,
+			opts.className
+		),
+
+	unlink: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
+			`<path d="M18.84 12.25l1.72-1.71a5 5 0 0 0-7.07-7.07l-1.72 1.71"></path><path d="M5.17 11.75l-1.71 1.71a5 5 0 0 0 7.07 7.07l1.71-1.71"></path><line x1="8" y1="2" x2="8" y2="5"></line><line x1="2" y1="8" x2="5" y2="8"></line><line x1="16" y1="19" x2="16" y2="22"></line><line x1="19" y1="16" x2="22" y2="16"></line>`,
+			opts.className
+		),
+
+	externalLink: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
+			`<path d="M18 13v6a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h6"></path><polyline points="15 3 21 3 21 9"></polyline><line x1="10" y1="14" x2="21" y2="3"></line>`,
+			opts.className
+		),
+
 	// Lists
 	bulletList: (opts: IconOptions = {}) =>
 		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
@@ -66,6 +102,12 @@ export const icons = {
 			opts.className
 		),
 
+	taskList: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
+			`<rect x="3" y="4" width="6" height="6" rx="1"></rect><polyline points="4.5 16 6 17.5 9 14.5"></polyline><line x1="13" y1="7" x2="21" y2="7"></line><line x1="13" y1="16" x2="21" y2="16"></line>`,
+			opts.className
+		),
+
 	// Block elements
 	blockquote: (opts: IconOptions = {}) =>
 		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
@@ -79,7 +121,31 @@ export const icons = {
 			opts.className
 		),
 
+	table: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
+			`<rect x="3" y="3" width="18" height="18" rx="2"></rect><line x1="3" y1="9" x2="21" y2="9"></line><line x1="3" y1="15" x2="21" y2="15"></line><line x1="12" y1="3" x2="12" y2="21"></line>`,
+			opts.className
+		),
+
 	// UI elements
+	undo: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
+			`<polyline points="9 14 4 9 9 4"></polyline><path d="M20 20v-7a4 4 0 0 0-4-4H4"></path>`,
+			opts.className
+		),
+
+	redo: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
+			`<polyline points="15 14 20 9 15 4"></polyline><path d="M4 20v-7a4 4 0 0 1 4-4h12"></path>`,
+			opts.className
+		),
+
+	grip: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
+			`<circle cx="9" cy="6" r="1"></circle><circle cx="15" cy="6" r="1"></circle><circle cx="9" cy="12" r="1"></circle><circle cx="15" cy="12" r="1"></circle><circle cx="9" cy="18" r="1"></circle><circle cx="15" cy="18" r="1"></circle>`,
+			opts.className
+		),
+
 	menu: (opts: IconOptions = {}) =>
 		createSvg(opts.size ?? 18, opts.strokeWidth ?? 2,
 			`<line x1="4" y1="6" x2="20" y2="6"></line><line x1="4" y1="12" x2="20" y2="12"></line><line x1="4" y1="18" x2="20" y2="18"></line>`,
@@ -104,6 +170,85 @@ export const icons = {
 			opts.className
 		),
 
+	outline: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 18, opts.strokeWidth ?? 2,
+			`<line x1="4" y1="6" x2="20" y2="6"></line><line x1="8" y1="12" x2="20" y2="12"></line><line x1="12" y1="18" x2="20" y2="18"></line>`,
+			opts.className
+		),
+
+	// Documents
+	files: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 18, opts.strokeWidth ?? 2,
+			`<path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path><polyline points="14 2 14 8 20 8"></polyline><line x1="8" y1="13" x2="16" y2="13"></line><line x1="8" y1="17" x2="13" y2="17"></line>`,
+			opts.className
+		),
+
+	plus: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
+			`<line x1="12" y1="5" x2="12" y2="19"></line><line x1="5" y1="12" x2="19" y2="12"></line>`,
+			opts.className
+		),
+
+	edit: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
+			`<path d="M12 20h9"></path><path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"></path>`,
+			opts.className
+		),
+
+	// Files
+	folderOpen: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
+			`<path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z"></path>`,
+			opts.className
+		),
+
+	save: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
+			`<path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z"></path><polyline points="17 21 17 13 7 13 7 21"></polyline><polyline points="7 3 7 8 15 8"></polyline>`,
+			opts.className
+		),
+
+	download: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
+			`<path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="7 10 12 15 17 10"></polyline><line x1="12" y1="15" x2="12" y2="3"></line>`,
+			opts.className
+		),
+
+	// Search
+	columns: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
+			`<rect x="3" y="4" width="18" height="16" rx="2"></rect><line x1="12" y1="4" x2="12" y2="20"></line>`,
+			opts.className
+		),
+	diff: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
+			`<line x1="12" y1="3" x2="12" y2="11"></line><line x1="8" y1="7" x2="16" y2="7"></line><line x1="8" y1="17" x2="16" y2="17"></line><line x1="5" y1="21" x2="19" y2="21"></line>`,
+			opts.className
+		),
+	search: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
+			`<circle cx="11" cy="11" r="8"></circle><line x1="21" y1="21" x2="16.65" y2="16.65"></line>`,
+			opts.className
+		),
+
+	chevronUp: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
+			`<polyline points="18 15 12 9 6 15"></polyline>`,
+			opts.className
+		),
+
+	chevronDown: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
+			`<polyline points="6 9 12 15 18 9"></polyline>`,
+			opts.className
+		),
+
+	chevronRight: (opts: IconOptions = {}) =>
+		createSvg(opts.size ?? 16, opts.strokeWidth ?? 2,
+			`<polyline points="9 18 15 12 9 6"></polyline>`,
+			opts.className
+		),
+
 	// Quick actions
 	zap: (opts: IconOptions = {}) =>
 		createSvg(opts.size ?? 18, opts.strokeWidth ?? 2,
@@ -155,4 +300,9 @@ export const textIcons = {
 	h1: "H1",
 	h2: "H2",
 	h3: "H3",
+	h4: "H4",
+	paragraph: "¶",
+	frontMatter: "---",
+	math: "∑",
+	footnote: "[^]",
 };
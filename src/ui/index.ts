@@ -3,7 +3,15 @@
  * @module ui
  */
 
-export { initToolbar, defaultToolbarItems, createToolbarItem } from "./toolbar";
+export {
+	initToolbar,
+	defaultToolbarItems,
+	toolbarItemCatalog,
+	createToolbarItem,
+	getToolbarLayout,
+	setToolbarLayout,
+	setToolbarVisible,
+} from "./toolbar";
 export type { ToolbarOptions } from "./toolbar";
 
 export { initSettings, applySettings, isDarkMode, prefersDarkMode } from "./settings";
@@ -11,6 +19,32 @@ export type { SettingsOptions } from "./settings";
 
 export { initQuickActions } from "./quick-actions";
 
+export { initDocuments } from "./documents";
+
+export { initTableControls } from "./table-controls";
+
+export { initBubbleMenu, defaultBubbleMenuItems, defaultTurnIntoItems } from "./bubble-menu";
+export type { BubbleMenuOptions } from "./bubble-menu";
+
+export { initLinkPopover, openLinkEditor } from "./link-popover";
+
+export { initSlashMenu, defaultSlashCommandItems } from "./slash-menu";
+export type { SlashMenuOptions } from "./slash-menu";
+
+export { initSearchBar } from "./search-bar";
+
+export { initOutline } from "./outline";
+
+export { initStatusBar } from "./status-bar";
+
+export { initDiffView, openDiffView } from "./diff-view";
+
+export { initSourceView, getViewMode, setViewMode, toggleViewMode } from "./source-view";
+
+export { initFootnotes } from "./footnotes";
+
+export { initCommandPalette, openCommandPalette } from "./command-palette";
+
 export { icons, textIcons } from "./icons";
 
 export {
@@ -0,0 +1,241 @@
+/**
+ * Keyboard shortcuts view for the settings panel
+ * @module ui/keybindings
+ */
+
+import type { EditorCommand } from "../types";
+import { fuzzyMatch, getCommandLabel, getCommand, getCommands } from "../core/commands";
+import {
+	chordFromEvent,
+	getDefaultKeybinding,
+	getKeybinding,
+	getKeybindings,
+	isAssignableChord,
+	isKeybindingCustomized,
+	resetKeybindings,
+	setKeybinding,
+} from "../core/keybindings";
+import { createElement, createButton, createSection, createBackButton } from "./components";
+
+interface Recording {
+	commandId: string;
+	/** Chord already used by other commands, waiting to be confirmed */
+	pending: string | null;
+	/** Why the last chord was not accepted */
+	error: string | null;
+}
+
+/**
+ * Get the labels of the other commands bound to a chord
+ */
+function getConflictLabels(bindings: Map<string, string[]>, chord: string, commandId: string): string[] {
+	return (bindings.get(chord) ?? [])
+		.filter((id) => id !== commandId)
+		.map((id) => getCommand(id))
+		.filter((command): command is EditorCommand => command !== null)
+		.map(getCommandLabel);
+}
+
+/**
+ * Create the keyboard shortcuts view
+ */
+export function createKeybindingsView(options: { onBack: () => void }): HTMLDivElement {
+	const view = createElement("div", { className: "md-keybindings-view" });
+	const filter = createElement("input", {
+		className: "md-keybindings-filter",
+		attributes: { type: "text", placeholder: "Search shortcuts", "aria-label": "Search shortcuts" },
+	});
+	const list = createElement("div", { className: "md-keybindings-list" });
+
+	let recording: Recording | null = null;
+	let recordingRow: HTMLElement | null = null;
+
+	const stopRecording = () => {
+		recording = null;
+		recordingRow = null;
+		window.removeEventListener("keydown", onRecordKey, true);
+		window.removeEventListener("mousedown", onOutsideMouseDown, true);
+		render();
+	};
+
+	const startRecording = (commandId: string) => {
+		recording = { commandId, pending: null, error: null };
+		window.addEventListener("keydown", onRecordKey, true);
+		window.addEventListener("mousedown", onOutsideMouseDown, true);
+		render();
+	};
+
+	const bind = (commandId: string, chord: string) => {
+		// Taking a chord removes it from the commands that had it
+		for (const id of getKeybindings().get(chord) ?? []) {
+			if (id !== commandId) setKeybinding(id, null);
+		}
+		setKeybinding(commandId, chord);
+		stopRecording();
+	};
+
+	// Listens on the window in the capture phase so chords are recorded instead of run
+	const onRecordKey = (e: KeyboardEvent) => {
+		if (!recording) return;
+		e.preventDefault();
+		e.stopPropagation();
+
+		const plain = !e.metaKey && !e.ctrlKey && !e.altKey && !e.shiftKey;
+		if (plain && e.key === "Escape") {
+			stopRecording();
+			return;
+		}
+		if (plain && (e.key === "Backspace" || e.key === "Delete")) {
+			setKeybinding(recording.commandId, null);
+			stopRecording();
+			return;
+		}
+		if (plain && e.key === "Enter" && recording.pending) {
+			bind(recording.commandId, recording.pending);
+			return;
+		}
+
+		const chord = chordFromEvent(e);
+		if (!chord) return;
+
+		if (!isAssignableChord(chord)) {
+			recording = { ...recording, pending: null, error: `${chord} would get in the way of typing. Add Cmd, Ctrl or Alt.` };
+		} else if (getConflictLabels(getKeybindings(), chord, recording.commandId).length > 0) {
+			recording = { ...recording, pending: chord, error: null };
+		} else {
+			bind(recording.commandId, chord);
+			return;
+		}
+		render();
+	};
+
+	const onOutsideMouseDown = (e: MouseEvent) => {
+		if (recordingRow && !recordingRow.contains(e.target as Node)) stopRecording();
+	};
+
+	const createMessage = (state: Recording): HTMLDivElement | null => {
+		if (state.error) {
+			return createElement("div", { className: "md-keybinding-message", textContent: state.error });
+		}
+		if (!state.pending) return null;
+
+		const pending = state.pending;
+		const message = createElement("div", {
+			className: "md-keybinding-message",
+			textContent: `${pending} is used by ${getConflictLabels(getKeybindings(), pending, state.commandId).join(", ")}.`,
+		});
+		const actions = createElement("div", {
+			className: "md-keybinding-message-actions",
+			children: [
+				createButton({ innerHTML: "Replace", onClick: () => bind(state.commandId, pending) }),
+				createButton({ innerHTML: "Cancel", onClick: stopRecording }),
+			],
+		});
+		message.appendChild(actions);
+		return message;
+	};
+
+	const createBindingRow = (command: EditorCommand, bindings: Map<string, string[]>): HTMLDivElement => {
+		const chord = getKeybinding(command.id);
+		const isRecording = recording?.commandId === command.id;
+		const conflicts = chord ? getConflictLabels(bindings, chord, command.id) : [];
+
+		const row = createElement("div", {
+			className: `md-keybinding-row${isRecording ? " recording" : ""}${conflicts.length > 0 ? " has-conflict" : ""}`,
+		});
+
+		const main = createElement("div", { className: "md-keybinding-main" });
+		main.appendChild(createElement("span", { className: "md-keybinding-label", textContent: getCommandLabel(command) }));
+
+		const chordBtn = createButton({
+			className: "md-keybinding-chord",
+			title: conflicts.length > 0 ? `Also used by ${conflicts.join(", ")}` : "Click to change, Backspace to remove",
+			onClick: () => (isRecording ? stopRecording() : startRecording(command.id)),
+		});
+		chordBtn.textContent = isRecording ? (recording?.pending ?? "Press keys…") : (chord ?? "—");
+		main.appendChild(chordBtn);
+
+		if (isKeybindingCustomized(command.id)) {
+			const defaultChord = getDefaultKeybinding(command.id);
+			main.appendChild(
+				createButton({
+					className: "md-keybinding-reset",
+					innerHTML: "↺",
+					title: `Reset to default (${defaultChord ?? "none"})`,
+					onClick: () => {
+						resetKeybindings(command.id);
+						render();
+					},
+				})
+			);
+		}
+
+		row.appendChild(main);
+
+		if (isRecording && recording) {
+			recordingRow = row;
+			const message = createMessage(recording);
+			if (message) row.appendChild(message);
+			requestAnimationFrame(() => chordBtn.focus());
+		}
+
+		return row;
+	};
+
+	const render = () => {
+		const query = filter.value.trim();
+		const bindings = getKeybindings();
+		list.innerHTML = "";
+
+		const commands = getCommands().filter((command) => {
+			if (!query) return true;
+			const chord = getKeybinding(command.id);
+			return (
+				fuzzyMatch(query, getCommandLabel(command)) !== null ||
+				(chord !== null && chord.toLowerCase().includes(query.toLowerCase()))
+			);
+		});
+
+		if (commands.length === 0) {
+			list.appendChild(createElement("div", { className: "md-keybindings-empty", textContent: "No matching commands" }));
+		}
+
+		for (const command of commands) {
+			list.appendChild(createBindingRow(command, bindings));
+		}
+	};
+
+	filter.addEventListener("input", render);
+
+	const resetBtn = createElement("button", {
+		className: "md-settings-action-btn",
+		textContent: "Reset All Shortcuts",
+		attributes: { type: "button" },
+	});
+	resetBtn.addEventListener("click", () => {
+		resetKeybindings();
+		stopRecording();
+	});
+
+	view.appendChild(
+		createBackButton({
+			label: "Keyboard Shortcuts",
+			onClick: () => {
+				stopRecording();
+				options.onBack();
+			},
+		})
+	);
+
+	const section = createSection();
+	section.appendChild(filter);
+	section.appendChild(list);
+	view.appendChild(section);
+
+	const actions = createSection();
+	actions.appendChild(resetBtn);
+	view.appendChild(actions);
+
+	render();
+	return view;
+}
@@ -0,0 +1,208 @@
+/**
+ * Link popover - edit, open or remove the link under the cursor
+ * @module ui/link-popover
+ */
+
+import type { Editor } from "@tiptap/core";
+import { isSafeLinkUrl } from "../core/extensions";
+import { registerCommands } from "../core/commands";
+import { icons } from "./icons";
+import { createElement, createButton } from "./components";
+
+interface LinkPopover {
+	element: HTMLDivElement;
+	/** Show the popover for the current selection, optionally focusing the input */
+	show: (focusInput: boolean) => void;
+	hide: () => void;
+}
+
+let activePopover: LinkPopover | null = null;
+
+/**
+ * Add a scheme to bare domains so "example.com" becomes a usable link
+ */
+function normalizeHref(href: string): string {
+	const trimmed = href.trim();
+	if (/^[a-z][a-z0-9+.-]*:/i.test(trimmed) || /^[/#.?]/.test(trimmed)) return trimmed;
+	return `https://${trimmed}`;
+}
+
+/**
+ * Create the link popover
+ */
+function createLinkPopover(editor: Editor): LinkPopover {
+	const element = createElement("div", { className: "md-link-popover hidden" });
+
+	const input = createElement("input", {
+		className: "md-link-input",
+		attributes: { type: "url", placeholder: "Paste or type a link", spellcheck: "false" },
+	});
+
+	const error = createElement("div", { className: "md-link-error hidden" });
+
+	const hide = () => {
+		element.classList.add("hidden");
+		error.classList.add("hidden");
+	};
+
+	const showError = (message: string) => {
+		error.textContent = message;
+		error.classList.remove("hidden");
+	};
+
+	const apply = () => {
+		const value = input.value.trim();
+
+		if (!value) {
+			editor.chain().focus().extendMarkRange("link").unsetLink().run();
+			hide();
+			return;
+		}
+
+		const href = normalizeHref(value);
+		if (!isSafeLinkUrl(href)) {
+			showError("This kind of link is not allowed");
+			return;
+		}
+
+		const { empty } = editor.state.selection;
+		if (empty && !editor.isActive("link")) {
+			// Nothing selected: insert the URL itself as the link text
+			editor
+				.chain()
+				.focus()
+				.insertContent({ type: "text", text: value, marks: [{ type: "link", attrs: { href } }] })
+				.run();
+		} else {
+			editor.chain().focus().extendMarkRange("link").setLink({ href }).run();
+		}
+
+		hide();
+	};
+
+	const open = () => {
+		const href = editor.getAttributes("link").href as string | undefined;
+		if (href && isSafeLinkUrl(href)) {
+			window.open(href, "_blank", "noopener,noreferrer");
+		}
+	};
+
+	const actions = createElement("div", { className: "md-link-actions" });
+
+	actions.appendChild(
+		createButton({
+			className: "md-link-action",
+			innerHTML: icons.check(),
+			title: "Apply (Enter)",
+			onClick: apply,
+		})
+	);
+
+	const openBtn = createButton({
+		className: "md-link-action",
+		innerHTML: icons.externalLink(),
+		title: "Open Link",
+		onClick: open,
+	});
+	actions.appendChild(openBtn);
+
+	const removeBtn = createButton({
+		className: "md-link-action md-danger",
+		innerHTML: icons.unlink(),
+		title: "Remove Link",
+		onClick: () => {
+			editor.chain().focus().extendMarkRange("link").unsetLink().run();
+			hide();
+		},
+	});
+	actions.appendChild(removeBtn);
+
+	const row = createElement("div", { className: "md-link-row", children: [input, actions] });
+	element.appendChild(row);
+	element.appendChild(error);
+
+	input.addEventListener("keydown", (e) => {
+		if (e.key === "Enter") {
+			e.preventDefault();
+			apply();
+		} else if (e.key === "Escape") {
+			e.preventDefault();
+			hide();
+			editor.commands.focus();
+		}
+	});
+	input.addEventListener("input", () => error.classList.add("hidden"));
+
+	const show = (focusInput: boolean) => {
+		const href = (editor.getAttributes("link").href as string | undefined) ?? "";
+		const hasLink = editor.isActive("link");
+
+		input.value = href;
+		openBtn.disabled = !hasLink;
+		removeBtn.disabled = !hasLink;
+		error.classList.add("hidden");
+
+		const coords = editor.view.coordsAtPos(editor.state.selection.from);
+		element.style.top = `${coords.bottom + window.scrollY + 6}px`;
+		element.style.left = `${Math.max(8, coords.left + window.scrollX)}px`;
+		element.classList.remove("hidden");
+
+		if (focusInput) {
+			input.focus();
+			input.select();
+		}
+	};
+
+	return { element, show, hide };
+}
+
+/**
+ * Open the link editor for the current selection
+ * Used by the toolbar button and the Cmd+K shortcut.
+ */
+export function openLinkEditor(editor: Editor): void {
+	if (!activePopover) return;
+
+	if (editor.isActive("link")) {
+		editor.commands.extendMarkRange("link");
+	}
+
+	activePopover.show(true);
+}
+
+/**
+ * Initialize the link popover
+ */
+export function initLinkPopover(editor: Editor): void {
+	const popover = createLinkPopover(editor);
+	activePopover = popover;
+	document.body.appendChild(popover.element);
+
+	// Show the link under the cursor without taking focus from the editor
+	editor.on("selectionUpdate", () => {
+		if (popover.element.contains(document.activeElement)) return;
+
+		if (editor.state.selection.empty && editor.isActive("link")) {
+			popover.show(false);
+		} else {
+			popover.hide();
+		}
+	});
+
+	registerCommands({
+		id: "link",
+		title: "Link",
+		category: "Format",
+		icon: icons.link(),
+		shortcut: "Cmd+K",
+		keywords: ["url", "href"],
+		action: openLinkEditor,
+	});
+
+	// Close when clicking outside
+	document.addEventListener("mousedown", (e) => {
+		const target = e.target as Node;
+		if (popover.element.contains(target) || editor.view.dom.contains(target)) return;
+		popover.hide();
+	});
+}
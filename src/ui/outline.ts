@@ -0,0 +1,178 @@
+/**
+ * Outline sidebar - heading navigation and section reordering
+ * @module ui/outline
+ */
+
+import type { Editor } from "@tiptap/core";
+import type { OutlineHeading } from "../core/outline";
+import { getOutline, getCurrentHeading, moveSection } from "../core/outline";
+import { outlineStorage } from "../core/storage";
+import { registerCommands } from "../core/commands";
+import { icons } from "./icons";
+import { createElement, createButton } from "./components";
+
+/**
+ * Create the outline toggle button
+ */
+function createOutlineToggle(): HTMLButtonElement {
+	return createButton({
+		className: "md-outline-toggle",
+		innerHTML: icons.outline(),
+		title: "Toggle Outline",
+	});
+}
+
+/**
+ * Scroll a heading to the top of the viewport and put the cursor in it
+ */
+function goToHeading(editor: Editor, heading: OutlineHeading): void {
+	editor.chain().focus().setTextSelection(heading.pos + 1).run();
+
+	const dom = editor.view.nodeDOM(heading.pos);
+	if (dom instanceof HTMLElement) {
+		dom.scrollIntoView({ behavior: "smooth", block: "start" });
+	}
+}
+
+/**
+ * Create the outline panel
+ */
+function createOutlinePanel(editor: Editor): {
+	panel: HTMLDivElement;
+	render: () => void;
+	highlight: () => void;
+} {
+	const panel = createElement("div", { className: "md-outline-panel hidden" });
+	const header = createElement("div", { className: "md-settings-panel-header" });
+	header.appendChild(createElement("h3", { textContent: "Outline" }));
+
+	const list = createElement("div", { className: "md-outline-list" });
+	panel.appendChild(header);
+	panel.appendChild(list);
+
+	let headings: OutlineHeading[] = [];
+	let rows: HTMLElement[] = [];
+	let draggedPos: number | null = null;
+
+	const clearDropIndicators = () => {
+		for (const row of rows) row.classList.remove("drop-before", "drop-after");
+	};
+
+	const highlight = () => {
+		const current = getCurrentHeading(headings, editor.state.selection.from);
+		headings.forEach((heading, i) => rows[i]?.classList.toggle("active", heading === current));
+	};
+
+	const render = () => {
+		headings = getOutline(editor.state.doc);
+		list.innerHTML = "";
+
+		if (headings.length === 0) {
+			list.appendChild(
+				createElement("div", { className: "md-outline-empty", textContent: "Add headings to build an outline" })
+			);
+		}
+
+		// Indent relative to the shallowest heading so documents without an H1 are not pushed right
+		const minLevel = Math.min(...headings.map((h) => h.level));
+
+		rows = headings.map((heading) => {
+			const movable = heading.sectionEnd !== null;
+			const row = createElement("div", {
+				className: `md-outline-item md-outline-level-${heading.level}`,
+				textContent: heading.text || "Untitled heading",
+				attributes: { title: heading.text, draggable: String(movable) },
+			});
+			row.style.paddingLeft = `${8 + (heading.level - minLevel) * 14}px`;
+
+			row.addEventListener("click", () => goToHeading(editor, heading));
+
+			if (movable) {
+				row.addEventListener("dragstart", (e) => {
+					draggedPos = heading.pos;
+					row.classList.add("dragging");
+					e.dataTransfer?.setData("text/plain", heading.text);
+					if (e.dataTransfer) e.dataTransfer.effectAllowed = "move";
+				});
+
+				row.addEventListener("dragend", () => {
+					draggedPos = null;
+					row.classList.remove("dragging");
+					clearDropIndicators();
+				});
+
+				row.addEventListener("dragover", (e) => {
+					if (draggedPos === null) return;
+					e.preventDefault();
+
+					const rect = row.getBoundingClientRect();
+					const after = e.clientY > rect.top + rect.height / 2;
+					clearDropIndicators();
+					row.classList.add(after ? "drop-after" : "drop-before");
+				});
+
+				row.addEventListener("drop", (e) => {
+					if (draggedPos === null) return;
+					e.preventDefault();
+
+					const after = row.classList.contains("drop-after");
+					const target = after ? heading.sectionEnd! : heading.pos;
+					clearDropIndicators();
+					moveSection(editor, draggedPos, target);
+				});
+			}
+
+			list.appendChild(row);
+			return row;
+		});
+
+		highlight();
+	};
+
+	return { panel, render, highlight };
+}
+
+/**
+ * Initialize the outline sidebar
+ */
+export function initOutline(editor: Editor): void {
+	const toggle = createOutlineToggle();
+	const { panel, render, highlight } = createOutlinePanel(editor);
+
+	const setOpen = (open: boolean) => {
+		panel.classList.toggle("hidden", !open);
+		toggle.classList.toggle("active", open);
+		if (open) render();
+	};
+
+	setOpen(outlineStorage.isOpen());
+
+	document.body.appendChild(toggle);
+	document.body.appendChild(panel);
+
+	const toggleOutline = () => {
+		const open = panel.classList.contains("hidden");
+		setOpen(open);
+		outlineStorage.setOpen(open);
+	};
+
+	toggle.addEventListener("click", toggleOutline);
+
+	registerCommands({
+		id: "toggle-outline",
+		title: "Toggle Outline",
+		category: "View",
+		icon: icons.outline(),
+		keywords: ["headings", "table of contents", "sidebar"],
+		action: toggleOutline,
+	});
+
+	const isOpen = () => !panel.classList.contains("hidden");
+
+	editor.on("update", () => {
+		if (isOpen()) render();
+	});
+	editor.on("selectionUpdate", () => {
+		if (isOpen()) highlight();
+	});
+}
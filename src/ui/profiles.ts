@@ -0,0 +1,142 @@
+/**
+ * Settings profiles view for the settings panel
+ * @module ui/profiles
+ */
+
+import type { SettingsBundle, SettingsProfile } from "../types";
+import {
+	createSettingsProfile,
+	deleteSettingsProfile,
+	getCurrentSettingsBundle,
+	isSameSettingsBundle,
+	listSettingsProfiles,
+	updateSettingsProfile,
+} from "../core/settings-profiles";
+import { icons } from "./icons";
+import { createElement, createButton, createSection, createBackButton } from "./components";
+
+/**
+ * Create a row for a profile in the profiles list
+ */
+function createProfileRow(
+	profile: SettingsProfile,
+	isCurrent: boolean,
+	options: { onApply: () => void; onChange: () => void }
+): HTMLDivElement {
+	const row = createElement("div", { className: `md-profile-item${isCurrent ? " current" : ""}` });
+
+	const applyBtn = createElement("button", {
+		className: "md-profile-apply",
+		attributes: { type: "button", title: isCurrent ? "These settings are in use" : `Switch to ${profile.name}` },
+		children: [
+			createElement("span", { className: "md-profile-name", textContent: profile.name }),
+			createElement("span", { className: "md-profile-check", innerHTML: isCurrent ? icons.check() : "" }),
+		],
+	});
+	applyBtn.addEventListener("click", options.onApply);
+	row.appendChild(applyBtn);
+
+	const actions = createElement("div", { className: "md-profile-actions" });
+
+	actions.appendChild(
+		createButton({
+			className: "md-profile-action",
+			innerHTML: icons.save(),
+			title: "Replace with Current Settings",
+			onClick: () => {
+				updateSettingsProfile(profile.id, { bundle: getCurrentSettingsBundle() });
+				options.onChange();
+			},
+		})
+	);
+
+	actions.appendChild(
+		createButton({
+			className: "md-profile-action",
+			innerHTML: icons.edit(),
+			title: "Rename",
+			onClick: () => {
+				const name = prompt("Rename profile", profile.name);
+				if (!name?.trim()) return;
+				updateSettingsProfile(profile.id, { name });
+				options.onChange();
+			},
+		})
+	);
+
+	actions.appendChild(
+		createButton({
+			className: "md-profile-action md-danger",
+			innerHTML: icons.trash(),
+			title: "Delete",
+			onClick: () => {
+				if (!confirm(`Delete the "${profile.name}" profile?`)) return;
+				deleteSettingsProfile(profile.id);
+				options.onChange();
+			},
+		})
+	);
+
+	row.appendChild(actions);
+	return row;
+}
+
+/**
+ * Create the profiles view
+ */
+export function createProfilesView(options: {
+	onBack: () => void;
+	onApply: (bundle: SettingsBundle) => void;
+}): HTMLDivElement {
+	const view = createElement("div", { className: "md-profiles-view" });
+	view.appendChild(createBackButton({ label: "Profiles", onClick: options.onBack }));
+
+	const list = createElement("div", { className: "md-profile-list" });
+
+	const render = () => {
+		const profiles = listSettingsProfiles();
+		const current = getCurrentSettingsBundle();
+		list.innerHTML = "";
+
+		if (profiles.length === 0) {
+			list.appendChild(
+				createElement("div", {
+					className: "md-profile-empty",
+					textContent: "Save your current settings as a profile to switch back to them in one click.",
+				})
+			);
+		}
+
+		for (const profile of profiles) {
+			list.appendChild(
+				createProfileRow(profile, isSameSettingsBundle(profile.bundle, current), {
+					onApply: () => {
+						options.onApply(profile.bundle);
+						render();
+					},
+					onChange: render,
+				})
+			);
+		}
+	};
+
+	const saveBtn = createElement("button", {
+		className: "md-settings-action-btn md-customize-btn",
+		textContent: "Save Current Settings as Profile",
+		attributes: { type: "button" },
+	});
+	saveBtn.addEventListener("click", () => {
+		const name = prompt("Profile name", `Profile ${listSettingsProfiles().length + 1}`);
+		if (!name?.trim()) return;
+		createSettingsProfile(name, getCurrentSettingsBundle());
+		render();
+	});
+
+	const section = createSection();
+	section.appendChild(saveBtn);
+	section.appendChild(list);
+	view.appendChild(section);
+
+	render();
+	return view;
+}
@@ -4,6 +4,12 @@
  */
 
 import type { Editor } from "@tiptap/core";
+import { openFile, saveFile, saveFileAs } from "../core/editor";
+import { takeSnapshot } from "../core/snapshots";
+import { getCommand, registerCommands } from "../core/commands";
+import { withKeybinding } from "../core/keybindings";
+import { openDiffView } from "./diff-view";
+import { toggleViewMode } from "./source-view";
 import { icons } from "./icons";
 import { createElement, createButton } from "./components";
 
@@ -11,6 +17,8 @@ interface QuickAction {
 	id: string;
 	icon: string;
 	label: string;
+	/** Group the action is listed under in the command palette */
+	category: string;
 	action: (editor: Editor) => void;
 }
 
@@ -22,6 +30,7 @@ const quickActionItems: QuickAction[] = [
 		id: "select-all",
 		icon: icons.selectAll(),
 		label: "Select All",
+		category: "Edit",
 		action: (editor) => {
 			editor.commands.selectAll();
 			editor.commands.focus();
@@ -31,6 +40,7 @@ const quickActionItems: QuickAction[] = [
 		id: "copy",
 		icon: icons.copy(),
 		label: "Copy",
+		category: "Edit",
 		action: async (editor) => {
 			const { from, to } = editor.state.selection;
 			if (from === to) return; // No selection
@@ -42,6 +52,7 @@ const quickActionItems: QuickAction[] = [
 		id: "select-copy",
 		icon: icons.clipboard(),
 		label: "Select All + Copy",
+		category: "Edit",
 		action: async (editor) => {
 			editor.commands.selectAll();
 			// copy as markdown
@@ -54,17 +65,62 @@ const quickActionItems: QuickAction[] = [
 		id: "clear-all",
 		icon: icons.trash(),
 		label: "Clear All",
+		category: "Edit",
 		action: (editor) => {
 			if (confirm("Clear all content?")) {
+				takeSnapshot(editor, "clear");
 				editor.commands.clearContent();
 				editor.commands.focus();
 			}
 		},
 	},
+	{
+		id: "open-file",
+		icon: icons.folderOpen(),
+		label: "Open File…",
+		category: "File",
+		action: (editor) => openFile(editor),
+	},
+	{
+		id: "save-file",
+		icon: icons.save(),
+		label: "Save",
+		category: "File",
+		action: (editor) => saveFile(editor),
+	},
+	{
+		id: "save-file-as",
+		icon: icons.download(),
+		label: "Save As…",
+		category: "File",
+		action: (editor) => saveFileAs(editor),
+	},
+	{
+		id: "review-changes",
+		icon: icons.diff(),
+		label: "Review Changes",
+		category: "View",
+		action: () => openDiffView(),
+	},
+	{
+		id: "source-mode",
+		icon: icons.code(),
+		label: "Source Mode",
+		category: "View",
+		action: () => toggleViewMode("source"),
+	},
+	{
+		id: "split-view",
+		icon: icons.columns(),
+		label: "Split View",
+		category: "View",
+		action: () => toggleViewMode("split"),
+	},
 	{
 		id: "scroll-top",
 		icon: icons.arrowUp(),
 		label: "Scroll to Top",
+		category: "Navigate",
 		action: (editor) => {
 			editor.commands.focus("start");
 			window.scrollTo({ top: 0, behavior: "smooth" });
@@ -74,6 +130,7 @@ const quickActionItems: QuickAction[] = [
 		id: "scroll-bottom",
 		icon: icons.arrowDown(),
 		label: "Scroll to Bottom",
+		category: "Navigate",
 		action: (editor) => {
 			editor.commands.focus("end");
 			window.scrollTo({ top: document.body.scrollHeight, behavior: "smooth" });
@@ -102,7 +159,7 @@ function createQuickActionButton(
 	const btn = createButton({
 		className: "md-quick-action-btn",
 		innerHTML: action.icon,
-		title: action.label,
+		title: withKeybinding(action.label, action.id),
 		onClick: () => {
 			action.action(editor);
 		},
@@ -134,10 +191,25 @@ export function initQuickActions(editor: Editor): void {
 	document.body.appendChild(toggle);
 	document.body.appendChild(bar);
 
+	// File and view commands are registered with their shortcuts by the modules that own them
+	registerCommands(
+		...quickActionItems
+			.filter((action) => !getCommand(action.id))
+			.map(({ label, ...action }) => ({ ...action, title: label }))
+	);
+
 	toggle.addEventListener("click", (e) => {
 		e.stopPropagation();
-		bar.classList.toggle("hidden");
-		toggle.classList.toggle("active", !bar.classList.contains("hidden"));
+		const nowHidden = bar.classList.toggle("hidden");
+		toggle.classList.toggle("active", !nowHidden);
+
+		// Shortcuts can be rebound at any time, so titles are refreshed on open
+		if (!nowHidden) {
+			quickActionItems.forEach((action, i) => {
+				const btn = bar.children[i] as HTMLButtonElement | undefined;
+				if (btn) btn.title = withKeybinding(action.label, action.id);
+			});
+		}
 	});
 
 	// Close bar when clicking outside
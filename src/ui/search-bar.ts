@@ -0,0 +1,245 @@
+/**
+ * Find and replace bar
+ * @module ui/search-bar
+ */
+
+import type { Editor } from "@tiptap/core";
+import type { SearchOptions } from "../core/search";
+import { getSearchState } from "../core/search";
+import { registerCommands } from "../core/commands";
+import { icons } from "./icons";
+import { createElement, createButton } from "./components";
+
+interface SearchBar {
+	element: HTMLDivElement;
+	open: (withReplace: boolean) => void;
+	close: () => void;
+	update: () => void;
+}
+
+/**
+ * Create a toggle button for a search option
+ */
+function createOptionToggle(
+	label: string,
+	title: string,
+	onToggle: (active: boolean) => void
+): HTMLButtonElement {
+	const btn = createButton({
+		className: "md-search-option",
+		innerHTML: label,
+		title,
+	});
+
+	btn.addEventListener("click", () => {
+		const active = btn.classList.toggle("active");
+		btn.setAttribute("aria-pressed", String(active));
+		onToggle(active);
+	});
+
+	return btn;
+}
+
+/**
+ * Create the find and replace bar
+ */
+function createSearchBar(editor: Editor): SearchBar {
+	const element = createElement("div", { className: "md-search-bar hidden" });
+	const options: SearchOptions = { caseSensitive: false, wholeWord: false, regex: false };
+
+	const findInput = createElement("input", {
+		className: "md-search-input",
+		attributes: { type: "text", placeholder: "Find", spellcheck: "false", "aria-label": "Find" },
+	});
+	const replaceInput = createElement("input", {
+		className: "md-search-input",
+		attributes: { type: "text", placeholder: "Replace", spellcheck: "false", "aria-label": "Replace" },
+	});
+	const count = createElement("span", { className: "md-search-count" });
+
+	const search = () => editor.commands.setSearchQuery(findInput.value, options);
+
+	const expandBtn = createButton({
+		className: "md-search-btn md-search-expand",
+		innerHTML: icons.chevronRight(),
+		title: "Toggle Replace (Cmd+H)",
+		onClick: () => setReplaceVisible(!element.classList.contains("with-replace")),
+	});
+
+	const setReplaceVisible = (visible: boolean) => {
+		element.classList.toggle("with-replace", visible);
+		expandBtn.innerHTML = visible ? icons.chevronDown() : icons.chevronRight();
+	};
+
+	const findRow = createElement("div", { className: "md-search-row" });
+	findRow.appendChild(findInput);
+	findRow.appendChild(
+		createOptionToggle("Aa", "Match Case", (active) => {
+			options.caseSensitive = active;
+			search();
+		})
+	);
+	findRow.appendChild(
+		createOptionToggle("<u>ab</u>", "Whole Word", (active) => {
+			options.wholeWord = active;
+			search();
+		})
+	);
+	findRow.appendChild(
+		createOptionToggle(".*", "Regular Expression", (active) => {
+			options.regex = active;
+			search();
+		})
+	);
+	findRow.appendChild(count);
+	findRow.appendChild(
+		createButton({
+			className: "md-search-btn",
+			innerHTML: icons.chevronUp(),
+			title: "Previous Match (Shift+Enter)",
+			onClick: () => editor.commands.previousSearchMatch(),
+		})
+	);
+	findRow.appendChild(
+		createButton({
+			className: "md-search-btn",
+			innerHTML: icons.chevronDown(),
+			title: "Next Match (Enter)",
+			onClick: () => editor.commands.nextSearchMatch(),
+		})
+	);
+
+	const replaceRow = createElement("div", { className: "md-search-row md-search-replace-row" });
+	replaceRow.appendChild(replaceInput);
+	replaceRow.appendChild(
+		createButton({
+			className: "md-search-text-btn",
+			innerHTML: "Replace",
+			title: "Replace (Enter)",
+			onClick: () => editor.commands.replaceSearchMatch(replaceInput.value),
+		})
+	);
+	replaceRow.appendChild(
+		createButton({
+			className: "md-search-text-btn",
+			innerHTML: "All",
+			title: "Replace All (Cmd+Enter)",
+			onClick: () => editor.commands.replaceAllSearchMatches(replaceInput.value),
+		})
+	);
+
+	const rows = createElement("div", { className: "md-search-rows", children: [findRow, replaceRow] });
+
+	element.appendChild(expandBtn);
+	element.appendChild(rows);
+	element.appendChild(
+		createButton({
+			className: "md-search-btn",
+			innerHTML: icons.close(),
+			title: "Close (Escape)",
+			onClick: () => close(),
+		})
+	);
+
+	const update = () => {
+		const state = getSearchState(editor.state);
+		element.classList.toggle("has-error", !!state?.error);
+		findInput.title = state?.error ?? "";
+
+		if (!state?.query) {
+			count.textContent = "";
+		} else if (state.error) {
+			count.textContent = "Invalid";
+		} else if (state.matches.length === 0) {
+			count.textContent = "No results";
+		} else {
+			count.textContent = `${state.currentIndex + 1} of ${state.matches.length}`;
+		}
+	};
+
+	const open = (withReplace: boolean) => {
+		element.classList.remove("hidden");
+		setReplaceVisible(withReplace || element.classList.contains("with-replace"));
+
+		// Search for the selected text, like most editors
+		const { from, to, empty } = editor.state.selection;
+		const selected = empty ? "" : editor.state.doc.textBetween(from, to, " ");
+		if (selected && !selected.includes("\n")) {
+			findInput.value = selected;
+		}
+
+		search();
+		const target = withReplace && findInput.value ? replaceInput : findInput;
+		target.focus();
+		target.select();
+	};
+
+	const close = () => {
+		element.classList.add("hidden");
+		editor.chain().clearSearch().focus().run();
+	};
+
+	findInput.addEventListener("input", search);
+
+	findInput.addEventListener("keydown", (e) => {
+		if (e.key === "Enter") {
+			e.preventDefault();
+			if (e.shiftKey) {
+				editor.commands.previousSearchMatch();
+			} else {
+				editor.commands.nextSearchMatch();
+			}
+		}
+	});
+
+	replaceInput.addEventListener("keydown", (e) => {
+		if (e.key === "Enter") {
+			e.preventDefault();
+			if (e.metaKey || e.ctrlKey) {
+				editor.commands.replaceAllSearchMatches(replaceInput.value);
+			} else {
+				editor.commands.replaceSearchMatch(replaceInput.value);
+			}
+		}
+	});
+
+	element.addEventListener("keydown", (e) => {
+		if (e.key === "Escape") {
+			e.preventDefault();
+			close();
+		}
+	});
+
+	return { element, open, close, update };
+}
+
+/**
+ * Initialize the find and replace bar
+ */
+export function initSearchBar(editor: Editor): void {
+	const bar = createSearchBar(editor);
+	document.body.appendChild(bar.element);
+
+	editor.on("transaction", bar.update);
+
+	registerCommands(
+		{
+			id: "find",
+			title: "Find",
+			category: "Edit",
+			icon: icons.search(),
+			shortcut: "Cmd+F",
+			keywords: ["search"],
+			action: () => bar.open(false),
+		},
+		{
+			id: "find-replace",
+			title: "Find and Replace",
+			category: "Edit",
+			icon: icons.search(),
+			shortcut: "Cmd+H",
+			keywords: ["search"],
+			action: () => bar.open(true),
+		}
+	);
+}
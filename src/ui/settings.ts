@@ -4,9 +4,19 @@
  */
 
 import type { Editor } from "@tiptap/core";
-import type { EditorSettings, ThemeMode, ThemeTokens } from "../types";
-import { settingsStorage } from "../core/storage";
+import type { EditorSettings, SettingsBundle, ThemeMode, ThemeTokens } from "../types";
+import { settingsStorage, customThemeStorage } from "../core/storage";
 import { reparseAsMarkdown } from "../core/editor";
+import { downloadFile, pickJsonFile } from "../core/file-access";
+import {
+	getCurrentSettingsBundle,
+	listSettingsProfiles,
+	onSettingsProfilesChange,
+	parseSettingsBundle,
+	serializeSettingsBundle,
+} from "../core/settings-profiles";
+import { setDiagramTheme } from "../core/mermaid";
+import { registerCommands } from "../core/commands";
 import { getThemeTokens, FONTS, getDefaultSettings, isMobile } from "../config";
 import { icons } from "./icons";
 import {
@@ -17,7 +27,14 @@ import {
 	createSection,
 	createSelect,
 	createToggleGroup,
+	createNavigablePanel,
+	createNavButton,
 } from "./components";
+import { createHistoryView, createSnapshotPreviewView } from "./history";
+import { createKeybindingsView } from "./keybindings";
+import { createToolbarSettingsView } from "./toolbar-settings";
+import { setToolbarLayout, setToolbarVisible } from "./toolbar";
+import { createProfilesView } from "./profiles";
 import {
 	createThemeCustomizer,
 	getCustomThemeTokens,
@@ -72,6 +89,9 @@ function applyThemeTokens(tokens: ThemeTokens): void {
 
 	// List markers
 	root.style.setProperty("--list-marker", tokens.listMarker);
+
+	// Diagrams are drawn with concrete colors rather than CSS variables
+	setDiagramTheme(tokens);
 }
 
 /**
@@ -137,6 +157,13 @@ function applyTypographySettings(settings: EditorSettings): void {
 	root.style.setProperty("--hr-margin", "2.5em");
 }
 
+/**
+ * Apply settings that show or hide parts of the interface
+ */
+function applyInterfaceSettings(settings: EditorSettings): void {
+	document.documentElement.classList.toggle("md-status-bar-visible", settings.showStatusBar);
+}
+
 /**
  * Apply all settings (theme + typography)
  */
@@ -145,6 +172,7 @@ export function applySettings(settings: EditorSettings, customTokens?: ThemeToke
 	const tokens = customTokens ?? getCustomThemeTokens(isDarkMode(settings.theme)) ?? getThemeTokens(isDarkMode(settings.theme));
 	applyThemeTokens(tokens);
 	applyTypographySettings(settings);
+	applyInterfaceSettings(settings);
 	settingsStorage.save(settings);
 }
 
@@ -371,6 +399,43 @@ function createSpacingSection(
 	return section;
 }
 
+/**
+ * Create interface section
+ */
+function createInterfaceSection(
+	settings: EditorSettings,
+	onUpdate: (settings: EditorSettings) => void
+): HTMLDivElement {
+	const section = createSection();
+
+	// Status bar
+	section.appendChild(
+		createRow(
+			"Status Bar",
+			createToggleGroup({
+				values: [
+					{ label: "Show", value: "show" },
+					{ label: "Hide", value: "hide" },
+				],
+				selected: settings.showStatusBar ? "show" : "hide",
+				onChange: (value) => {
+					settings.showStatusBar = value === "show";
+					onUpdate(settings);
+				},
+			})
+		)
+	);
+
+	return section;
+}
+
+/**
+ * Download the settings, custom theme and toolbar state as a JSON file
+ */
+function exportSettings(): void {
+	downloadFile("blankmd-settings.json", serializeSettingsBundle(getCurrentSettingsBundle()), "application/json");
+}
+
 /**
  * Create actions section
  */
@@ -378,10 +443,38 @@ function createActionsSection(
 	settings: EditorSettings,
 	onUpdate: (settings: EditorSettings) => void,
 	editor: Editor,
-	rebuildPanel: () => void
+	rebuildPanel: () => void,
+	transfer: { onImport: () => void; importError: string | null; }
 ): HTMLDivElement {
 	const section = createSection();
 
+	// Export and import buttons
+	const exportBtn = createElement("button", {
+		className: "md-settings-action-btn",
+		textContent: "Export Settings",
+		attributes: { type: "button", title: "Download settings, colors and toolbar as a JSON file" },
+	});
+	exportBtn.addEventListener("click", exportSettings);
+	section.appendChild(exportBtn);
+
+	const importBtn = createElement("button", {
+		className: "md-settings-action-btn",
+		textContent: "Import Settings",
+		attributes: { type: "button", title: "Load settings from an exported JSON file" },
+	});
+	importBtn.addEventListener("click", transfer.onImport);
+	section.appendChild(importBtn);
+
+	if (transfer.importError) {
+		section.appendChild(
+			createElement("div", {
+				className: "md-settings-error",
+				textContent: `Import failed: ${transfer.importError}`,
+				attributes: { role: "alert" },
+			})
+		);
+	}
+
 	// Reparse button
 	const reparseBtn = createElement("button", {
 		className: "md-settings-action-btn",
@@ -418,7 +511,15 @@ function createSettingsPanel(
 	settings: EditorSettings,
 	onUpdate: (settings: EditorSettings) => void,
 	editor: Editor
-): { settingsPanel: HTMLDivElement; colorPanel: HTMLDivElement; } {
+): {
+	settingsPanel: HTMLDivElement;
+	colorPanel: HTMLDivElement;
+	rebuild: () => void;
+	toggleColorPanel: () => void;
+	showView: (viewId: "history" | "keybindings" | "toolbar" | "profiles") => void;
+	applyBundle: (bundle: SettingsBundle) => void;
+	importSettings: () => Promise<void>;
+} {
 	const settingsPanel = createElement("div", { className: "md-settings-panel hidden" });
 	const colorPanel = createElement("div", { className: "md-color-panel hidden" });
 
@@ -428,6 +529,58 @@ function createSettingsPanel(
 	// Check if mobile
 	const isMobileView = () => window.innerWidth <= 768;
 
+	const toggleColorPanel = () => {
+		if (colorPanel.classList.contains("hidden")) {
+			if (!colorPanelBuilt) {
+				buildColorPanel();
+				colorPanelBuilt = true;
+			}
+			colorPanel.classList.remove("hidden");
+			// On mobile, hide settings when opening colors
+			if (isMobileView()) {
+				settingsPanel.classList.add("hidden");
+			}
+		} else {
+			colorPanel.classList.add("hidden");
+		}
+	};
+
+	let navigate: (viewId: string) => void = () => {};
+
+	/** Why the last import failed, shown once by the actions section */
+	let importError: string | null = null;
+
+	// Switch everything a bundle holds; callers rebuild the views they show
+	const applyBundle = (bundle: SettingsBundle) => {
+		customThemeStorage.save(bundle.customTheme);
+		Object.assign(settings, bundle.settings);
+		onUpdate(settings);
+		setToolbarVisible(bundle.toolbar.visible);
+		setToolbarLayout(bundle.toolbar.layout);
+
+		// The color panel shows the custom theme it was built with
+		colorPanelBuilt = false;
+		colorPanel.classList.add("hidden");
+	};
+
+	const importSettings = async () => {
+		try {
+			const file = await pickJsonFile();
+			if (!file) return;
+
+			const result = parseSettingsBundle(file.content);
+			if (result.bundle) applyBundle(result.bundle);
+			importError = result.error;
+		} catch (err) {
+			console.error("Import failed:", err);
+			importError = err instanceof Error ? err.message : String(err);
+		}
+
+		buildSettingsContent();
+		settingsPanel.classList.remove("hidden");
+		importError = null;
+	};
+
 	const buildSettingsContent = () => {
 		settingsPanel.innerHTML = "";
 		settingsPanel.appendChild(
@@ -436,29 +589,65 @@ function createSettingsPanel(
 				colorPanel.classList.add("hidden");
 			})
 		);
-		settingsPanel.appendChild(
-			createThemeSection(settings, onUpdate, () => {
-				// Toggle color panel
-				if (colorPanel.classList.contains("hidden")) {
-					if (!colorPanelBuilt) {
-						buildColorPanel();
-						colorPanelBuilt = true;
-					}
-					colorPanel.classList.remove("hidden");
-					// On mobile, hide settings when opening colors
-					if (isMobileView()) {
-						settingsPanel.classList.add("hidden");
-					}
-				} else {
-					colorPanel.classList.add("hidden");
-				}
+
+		const nav = createNavigablePanel();
+		navigate = nav.navigate;
+		let previewId: string | null = null;
+
+		nav.addView("main", () => {
+			const view = createElement("div");
+			view.appendChild(createThemeSection(settings, onUpdate, toggleColorPanel));
+			view.appendChild(createTypographySection(settings, onUpdate));
+			view.appendChild(createSpacingSection(settings, onUpdate));
+			view.appendChild(createInterfaceSection(settings, onUpdate));
+
+			const historySection = createSection();
+			historySection.appendChild(
+				createNavButton({ label: "Version History", onClick: () => nav.navigate("history") })
+			);
+			historySection.appendChild(
+				createNavButton({ label: "Keyboard Shortcuts", onClick: () => nav.navigate("keybindings") })
+			);
+			historySection.appendChild(
+				createNavButton({ label: "Toolbar", onClick: () => nav.navigate("toolbar") })
+			);
+			historySection.appendChild(
+				createNavButton({ label: "Profiles", onClick: () => nav.navigate("profiles") })
+			);
+			view.appendChild(historySection);
+			view.appendChild(
+				createActionsSection(settings, onUpdate, editor, buildSettingsContent, {
+					onImport: () => void importSettings(),
+					importError,
+				})
+			);
+			return view;
+		});
+
+		nav.addView("history", () =>
+			createHistoryView(editor, {
+				onBack: nav.back,
+				onOpen: (id) => {
+					previewId = id;
+					nav.navigate("snapshot");
+				},
 			})
 		);
-		settingsPanel.appendChild(createTypographySection(settings, onUpdate));
-		settingsPanel.appendChild(createSpacingSection(settings, onUpdate));
-		settingsPanel.appendChild(
-			createActionsSection(settings, onUpdate, editor, buildSettingsContent)
+
+		nav.addView("keybindings", () => createKeybindingsView({ onBack: nav.back }));
+
+		nav.addView("toolbar", () => createToolbarSettingsView({ onBack: nav.back }));
+
+		nav.addView("profiles", () => createProfilesView({ onBack: nav.back, onApply: applyBundle }));
+
+		nav.addView("snapshot", () =>
+			createSnapshotPreviewView(editor, previewId ?? "", {
+				onBack: nav.back,
+				onRestore: nav.back,
+			})
 		);
+
+		settingsPanel.appendChild(nav.container);
 	};
 
 	const buildColorPanel = () => {
@@ -481,9 +670,23 @@ function createSettingsPanel(
 		colorPanel.appendChild(customizer);
 	};
 
+	const showView = (viewId: "history" | "keybindings" | "toolbar" | "profiles") => {
+		buildSettingsContent();
+		settingsPanel.classList.remove("hidden");
+		navigate(viewId);
+	};
+
 	buildSettingsContent();
 
-	return { settingsPanel, colorPanel };
+	return {
+		settingsPanel,
+		colorPanel,
+		rebuild: buildSettingsContent,
+		toggleColorPanel,
+		showView,
+		applyBundle,
+		importSettings,
+	};
 }
 
 /**
@@ -497,6 +700,18 @@ function createSettingsButton(): HTMLButtonElement {
 	});
 }
 
+/**
+ * Check that a clipboard event is for the editor text
+ * Inputs elsewhere on the page and in node views (front matter, math) keep
+ * the browser's own copy and paste.
+ */
+function isEditorClipboardTarget(editor: Editor, target: EventTarget | null): boolean {
+	if (!(target instanceof Node) || !editor.view.dom.contains(target)) return false;
+
+	const element = target instanceof Element ? target : target.parentElement;
+	return !element?.closest("input, textarea");
+}
+
 export interface SettingsOptions {
 	/** Initial settings to apply (defaults to saved settings) */
 	initialSettings?: Partial<EditorSettings>;
@@ -525,7 +740,7 @@ export function initSettings(editor: Editor, options: SettingsOptions = {}): voi
 
 	// Create UI
 	const btn = createSettingsButton();
-	const { settingsPanel, colorPanel } = createSettingsPanel(
+	const { settingsPanel, colorPanel, rebuild, toggleColorPanel, showView, applyBundle, importSettings } = createSettingsPanel(
 		settings,
 		(newSettings) => {
 			settings = newSettings;
@@ -547,26 +762,154 @@ export function initSettings(editor: Editor, options: SettingsOptions = {}): voi
 		}
 	});
 
+	// Change settings from the command palette, keeping the open panel in step
+	const updateSettings = (changes: Partial<EditorSettings>) => {
+		Object.assign(settings, changes);
+		applySettings(settings);
+		rebuild();
+	};
+
+	const themeCommand = (theme: ThemeMode, label: string) => ({
+		id: `theme-${theme}`,
+		title: `Theme: ${label}`,
+		category: "Settings",
+		keywords: ["color", "appearance", "mode"],
+		action: () => updateSettings({ theme }),
+	});
+
+	registerCommands(
+		{
+			id: "open-settings",
+			title: "Open Settings",
+			category: "Settings",
+			icon: icons.settings(),
+			keywords: ["preferences", "options"],
+			action: () => {
+				rebuild();
+				settingsPanel.classList.remove("hidden");
+			},
+		},
+		themeCommand("light", "Light"),
+		themeCommand("dark", "Dark"),
+		themeCommand("system", "Auto"),
+		{
+			id: "customize-colors",
+			title: "Customize Colors",
+			category: "Settings",
+			keywords: ["theme"],
+			action: toggleColorPanel,
+		},
+		{
+			id: "toggle-status-bar",
+			title: "Toggle Status Bar",
+			category: "Settings",
+			keywords: ["word count"],
+			action: () => updateSettings({ showStatusBar: !settings.showStatusBar }),
+		},
+		{
+			id: "version-history",
+			title: "Version History",
+			category: "Settings",
+			keywords: ["snapshots", "restore"],
+			action: () => showView("history"),
+		},
+		{
+			id: "keyboard-shortcuts",
+			title: "Keyboard Shortcuts",
+			category: "Settings",
+			keywords: ["keybindings", "hotkeys", "keys"],
+			action: () => showView("keybindings"),
+		},
+		{
+			id: "customize-toolbar",
+			title: "Customize Toolbar",
+			category: "Settings",
+			keywords: ["buttons", "reorder", "position"],
+			action: () => showView("toolbar"),
+		},
+		{
+			id: "settings-profiles",
+			title: "Profiles",
+			category: "Settings",
+			keywords: ["switch", "presets"],
+			action: () => showView("profiles"),
+		},
+		{
+			id: "export-settings",
+			title: "Export Settings",
+			category: "Settings",
+			icon: icons.download(),
+			keywords: ["backup", "json"],
+			action: exportSettings,
+		},
+		{
+			id: "import-settings",
+			title: "Import Settings",
+			category: "Settings",
+			keywords: ["restore", "json"],
+			action: () => void importSettings(),
+		},
+		{
+			id: "reparse-markdown",
+			title: "Reparse as Markdown",
+			category: "Settings",
+			keywords: ["fix paste"],
+			action: () => reparseAsMarkdown(editor),
+		},
+		{
+			id: "reset-settings",
+			title: "Reset to Defaults",
+			category: "Settings",
+			action: () => updateSettings(getDefaultSettings()),
+		}
+	);
+
+	// One command per profile, kept in step as profiles are added, renamed or removed
+	let unregisterProfiles = () => {};
+	const registerProfileCommands = () => {
+		unregisterProfiles();
+		unregisterProfiles = registerCommands(
+			...listSettingsProfiles().map((profile) => ({
+				id: `settings-profile-${profile.id}`,
+				title: `Switch to Profile: ${profile.name}`,
+				category: "Settings",
+				keywords: ["profile"],
+				action: () => {
+					applyBundle(profile.bundle);
+					rebuild();
+				},
+			}))
+		);
+	};
+	registerProfileCommands();
+	onSettingsProfilesChange(registerProfileCommands);
+
 	// Close panels when clicking outside
+	// The event path is used because views may have replaced the clicked element
 	document.addEventListener("click", (e) => {
-		const target = e.target as Node;
-		if (!settingsPanel.contains(target) && !colorPanel.contains(target) && !btn.contains(target)) {
+		const path = e.composedPath();
+		if (!path.includes(settingsPanel) && !path.includes(colorPanel) && !path.includes(btn)) {
 			settingsPanel.classList.add("hidden");
 			colorPanel.classList.add("hidden");
 		}
 	});
 
 	// Setup paste listener for auto-reparse (optional feature)
-	window.addEventListener("paste", () => {
+	// Pastes are covered by the timed snapshots, so they do not each add a version
+	window.addEventListener("paste", (e) => {
+		if (!isEditorClipboardTarget(editor, e.target)) return;
+
 		const cursorPosition = editor.state.selection.anchor;
 		setTimeout(() => {
-			reparseAsMarkdown(editor);
+			reparseAsMarkdown(editor, { snapshot: false });
 			editor.commands.focus(cursorPosition);
 		}, 0);
 	});
 
 	// listen for a copy, and intercept it so we can copy as markdown
 	window.addEventListener("copy", (e) => {
+		if (!isEditorClipboardTarget(editor, e.target)) return;
+
 		const { from, to } = editor.state.selection;
 		if (from === to) return; // No selection
 
@@ -0,0 +1,268 @@
+/**
+ * Slash command menu - block insertion list opened by typing "/"
+ * @module ui/slash-menu
+ */
+
+import type { Editor } from "@tiptap/core";
+import type { SlashCommandItem } from "../types";
+import { getSlashMenuItems, runSlashCommand, selectSlashMenuItem, slashMenuKey } from "../core/extensions";
+import { pickImageFiles } from "../core/images";
+import { registerCommands } from "../core/commands";
+import { icons, textIcons } from "./icons";
+import { createElement } from "./components";
+
+/**
+ * Languages offered as code block commands
+ */
+const codeBlockLanguages: Array<{ label: string; value: string; keywords?: string[]; }> = [
+	{ label: "JavaScript", value: "javascript", keywords: ["js"] },
+	{ label: "TypeScript", value: "typescript", keywords: ["ts"] },
+	{ label: "Python", value: "python", keywords: ["py"] },
+	{ label: "Bash", value: "bash", keywords: ["sh", "shell"] },
+	{ label: "JSON", value: "json" },
+	{ label: "HTML", value: "html", keywords: ["xml"] },
+	{ label: "CSS", value: "css" },
+	{ label: "SQL", value: "sql" },
+	{ label: "Go", value: "go", keywords: ["golang"] },
+	{ label: "Rust", value: "rust", keywords: ["rs"] },
+	{ label: "YAML", value: "yaml", keywords: ["yml"] },
+	{ label: "Markdown", value: "markdown", keywords: ["md"] },
+];
+
+/**
+ * Default slash command items
+ * Easily extendable by adding new items to this array
+ */
+export const defaultSlashCommandItems: SlashCommandItem[] = [
+	{
+		id: "h1",
+		icon: textIcons.h1,
+		title: "Heading 1",
+		description: "Large section heading",
+		keywords: ["title", "h1"],
+		action: (editor) => editor.chain().focus().setNode("heading", { level: 1 }).run(),
+	},
+	{
+		id: "h2",
+		icon: textIcons.h2,
+		title: "Heading 2",
+		description: "Medium section heading",
+		keywords: ["subtitle", "h2"],
+		action: (editor) => editor.chain().focus().setNode("heading", { level: 2 }).run(),
+	},
+	{
+		id: "h3",
+		icon: textIcons.h3,
+		title: "Heading 3",
+		description: "Small section heading",
+		keywords: ["h3"],
+		action: (editor) => editor.chain().focus().setNode("heading", { level: 3 }).run(),
+	},
+	{
+		id: "bulletList",
+		icon: icons.bulletList(),
+		title: "Bullet List",
+		description: "Unordered list",
+		keywords: ["ul", "unordered"],
+		action: (editor) => editor.chain().focus().toggleBulletList().run(),
+	},
+	{
+		id: "orderedList",
+		icon: icons.orderedList(),
+		title: "Ordered List",
+		description: "Numbered list",
+		keywords: ["ol", "numbered"],
+		action: (editor) => editor.chain().focus().toggleOrderedList().run(),
+	},
+	{
+		id: "taskList",
+		icon: icons.taskList(),
+		title: "Task List",
+		description: "Checklist with checkboxes",
+		keywords: ["todo", "checkbox", "check"],
+		action: (editor) => editor.chain().focus().toggleTaskList().run(),
+	},
+	{
+		id: "blockquote",
+		icon: icons.blockquote(),
+		title: "Quote",
+		description: "Blockquote",
+		keywords: ["blockquote", "citation"],
+		action: (editor) => editor.chain().focus().toggleBlockquote().run(),
+	},
+	{
+		id: "codeBlock",
+		icon: icons.codeBlock(),
+		title: "Code Block",
+		description: "Plain text code",
+		keywords: ["pre", "snippet"],
+		action: (editor) => editor.chain().focus().setCodeBlock().run(),
+	},
+	...codeBlockLanguages.map(
+		(lang): SlashCommandItem => ({
+			id: `codeBlock-${lang.value}`,
+			icon: icons.codeBlock(),
+			title: `Code Block: ${lang.label}`,
+			description: `${lang.label} code`,
+			keywords: ["code", lang.value, ...(lang.keywords ?? [])],
+			action: (editor) => editor.chain().focus().setCodeBlock({ language: lang.value }).run(),
+		})
+	),
+	{
+		id: "image",
+		icon: icons.image(),
+		title: "Image",
+		description: "Upload an image",
+		keywords: ["picture", "photo", "img", "upload"],
+		action: (editor) => {
+			void pickImageFiles().then((files) => editor.chain().focus().insertImages(files).run());
+		},
+	},
+	{
+		id: "horizontalRule",
+		icon: icons.horizontalRule(),
+		title: "Divider",
+		description: "Horizontal rule",
+		keywords: ["hr", "rule", "separator", "line"],
+		action: (editor) => editor.chain().focus().setHorizontalRule().run(),
+	},
+	{
+		id: "table",
+		icon: icons.table(),
+		title: "Table",
+		description: "3 × 3 table with a header row",
+		keywords: ["grid"],
+		action: (editor) => editor.chain().focus().insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run(),
+	},
+	{
+		id: "frontMatter",
+		icon: textIcons.frontMatter,
+		title: "Front Matter",
+		description: "YAML metadata at the top of the document",
+		keywords: ["yaml", "metadata", "properties"],
+		action: (editor) => editor.chain().focus().insertFrontMatter().run(),
+	},
+	{
+		id: "blockMath",
+		icon: textIcons.math,
+		title: "Math Block",
+		description: "LaTeX formula, $$…$$",
+		keywords: ["latex", "katex", "equation", "formula", "tex"],
+		action: (editor) => editor.chain().focus().insertBlockMath().run(),
+	},
+	{
+		id: "inlineMath",
+		icon: textIcons.math,
+		title: "Inline Math",
+		description: "LaTeX in the line, $…$",
+		keywords: ["latex", "katex", "equation", "formula", "tex"],
+		action: (editor) => editor.chain().focus().insertInlineMath().run(),
+	},
+	{
+		id: "footnote",
+		icon: textIcons.footnote,
+		title: "Footnote",
+		description: "Numbered note at the end of the document",
+		keywords: ["note", "reference", "citation"],
+		action: (editor) => editor.chain().focus().insertFootnote().run(),
+	},
+];
+
+/**
+ * Create a single menu row
+ */
+function createMenuItem(item: SlashCommandItem, isSelected: boolean): HTMLDivElement {
+	const row = createElement("div", {
+		className: `md-slash-menu-item${isSelected ? " selected" : ""}`,
+		attributes: { role: "option", "aria-selected": String(isSelected) },
+	});
+
+	row.appendChild(createElement("span", { className: "md-slash-menu-icon", innerHTML: item.icon ?? "" }));
+
+	const text = createElement("span", { className: "md-slash-menu-text" });
+	text.appendChild(createElement("span", { className: "md-slash-menu-title", textContent: item.title }));
+	if (item.description) {
+		text.appendChild(
+			createElement("span", { className: "md-slash-menu-description", textContent: item.description })
+		);
+	}
+	row.appendChild(text);
+
+	return row;
+}
+
+export interface SlashMenuOptions {
+	/** Custom slash command items (defaults to defaultSlashCommandItems) */
+	items?: SlashCommandItem[];
+}
+
+/**
+ * Initialize the slash command menu
+ */
+export function initSlashMenu(editor: Editor, options: SlashMenuOptions = {}): void {
+	const { items = defaultSlashCommandItems } = options;
+	editor.storage.slashCommands.items = items;
+
+	registerCommands(
+		...items.map((item) => ({
+			id: `insert-${item.id}`,
+			title: item.title,
+			category: "Insert",
+			icon: item.icon,
+			keywords: item.keywords,
+			editorOnly: true,
+			action: item.action,
+		}))
+	);
+
+	const menu = createElement("div", {
+		className: "md-slash-menu hidden",
+		attributes: { role: "listbox" },
+	});
+	document.body.appendChild(menu);
+
+	const render = () => {
+		const state = slashMenuKey.getState(editor.state);
+
+		if (!state?.active || !state.range) {
+			menu.classList.add("hidden");
+			return;
+		}
+
+		const visibleItems = getSlashMenuItems(editor);
+		menu.innerHTML = "";
+
+		if (visibleItems.length === 0) {
+			menu.appendChild(createElement("div", { className: "md-slash-menu-empty", textContent: "No results" }));
+		}
+
+		visibleItems.forEach((item, index) => {
+			const row = createMenuItem(item, index === state.selectedIndex);
+
+			// Keep focus in the editor while clicking
+			row.addEventListener("mousedown", (e) => e.preventDefault());
+			row.addEventListener("click", () => runSlashCommand(editor, item));
+			row.addEventListener("mousemove", () => {
+				if (index !== slashMenuKey.getState(editor.state)?.selectedIndex) {
+					selectSlashMenuItem(editor, index);
+				}
+			});
+
+			menu.appendChild(row);
+		});
+
+		menu.classList.remove("hidden");
+
+		const coords = editor.view.coordsAtPos(state.range.from);
+		const spaceBelow = window.innerHeight - coords.bottom;
+		const top = spaceBelow < menu.offsetHeight + 12 ? coords.top - menu.offsetHeight - 6 : coords.bottom + 6;
+
+		menu.style.top = `${top + window.scrollY}px`;
+		menu.style.left = `${Math.max(8, coords.left + window.scrollX)}px`;
+
+		menu.querySelector(".selected")?.scrollIntoView({ block: "nearest" });
+	};
+
+	editor.on("transaction", render);
+	editor.on("blur", () => menu.classList.add("hidden"));
+}
@@ -0,0 +1,186 @@
+/**
+ * Markdown source mode and split view
+ * @module ui/source-view
+ */
+
+import type { Editor } from "@tiptap/core";
+import type { ViewMode } from "../types";
+import { viewModeStorage } from "../core/storage";
+import { registerCommands } from "../core/commands";
+import { icons } from "./icons";
+import { createElement } from "./components";
+
+/** Pause in typing before source edits are parsed into the editor */
+const SOURCE_SYNC_DELAY = 200;
+
+const viewModeClasses: Record<ViewMode, string | null> = {
+	rich: null,
+	source: "md-view-source",
+	split: "md-view-split",
+};
+
+interface SourceView {
+	getMode: () => ViewMode;
+	setMode: (mode: ViewMode) => void;
+}
+
+let activeSourceView: SourceView | null = null;
+
+/**
+ * Keep the scroll position of two panes in proportion
+ * Scrolling set here fires a scroll event on the other pane, which is ignored.
+ */
+function syncScroll(a: HTMLElement, b: HTMLElement, isEnabled: () => boolean): void {
+	let ignored: HTMLElement | null = null;
+
+	const follow = (from: HTMLElement, to: HTMLElement) => {
+		if (!isEnabled()) return;
+		if (ignored === from) {
+			ignored = null;
+			return;
+		}
+
+		const range = from.scrollHeight - from.clientHeight;
+		const ratio = range > 0 ? from.scrollTop / range : 0;
+		const target = Math.round(ratio * (to.scrollHeight - to.clientHeight));
+
+		if (to.scrollTop !== target) {
+			ignored = to;
+			to.scrollTop = target;
+		}
+	};
+
+	a.addEventListener("scroll", () => follow(a, b), { passive: true });
+	b.addEventListener("scroll", () => follow(b, a), { passive: true });
+}
+
+/**
+ * Create the source view that mirrors the editor content
+ */
+function createSourceView(editor: Editor): SourceView {
+	const { manager } = editor.storage.markdown;
+	const richPane = editor.view.dom.parentElement ?? editor.view.dom;
+
+	const textarea = createElement("textarea", {
+		className: "md-source-editor",
+		attributes: { spellcheck: "false", "aria-label": "Markdown source" },
+	});
+	document.body.appendChild(textarea);
+
+	let mode: ViewMode = "rich";
+	let syncTimeout: ReturnType<typeof setTimeout> | null = null;
+	let applyingSource = false;
+
+	const showSource = () => {
+		const { selectionStart, selectionEnd } = textarea;
+		textarea.value = manager.serialize(editor.getJSON());
+		textarea.setSelectionRange(selectionStart, selectionEnd);
+	};
+
+	// Source edits go through the parser so both sides hold the same document
+	const applySource = () => {
+		if (syncTimeout) clearTimeout(syncTimeout);
+		syncTimeout = null;
+
+		applyingSource = true;
+		try {
+			editor.commands.setContent(manager.parse(textarea.value));
+		} finally {
+			applyingSource = false;
+		}
+	};
+
+	textarea.addEventListener("input", () => {
+		if (syncTimeout) clearTimeout(syncTimeout);
+		syncTimeout = setTimeout(applySource, SOURCE_SYNC_DELAY);
+	});
+
+	textarea.addEventListener("blur", () => {
+		if (syncTimeout) applySource();
+	});
+
+	// Rewriting the source while it is typed in would fight the cursor
+	editor.on("update", () => {
+		if (mode !== "rich" && !applyingSource) showSource();
+	});
+
+	syncScroll(richPane, textarea, () => mode === "split");
+
+	const setMode = (next: ViewMode) => {
+		if (syncTimeout) applySource();
+
+		const root = document.documentElement;
+		for (const className of Object.values(viewModeClasses)) {
+			if (className) root.classList.remove(className);
+		}
+		const className = viewModeClasses[next];
+		if (className) root.classList.add(className);
+
+		const previous = mode;
+		mode = next;
+		viewModeStorage.save(next);
+
+		if (next === "rich") {
+			if (previous !== "rich") editor.commands.focus();
+			return;
+		}
+
+		showSource();
+		if (previous === "rich") textarea.focus();
+	};
+
+	return { getMode: () => mode, setMode };
+}
+
+/**
+ * Get the current view mode
+ */
+export function getViewMode(): ViewMode {
+	return activeSourceView?.getMode() ?? "rich";
+}
+
+/**
+ * Switch between the rich text, source and split views
+ */
+export function setViewMode(mode: ViewMode): void {
+	activeSourceView?.setMode(mode);
+}
+
+/**
+ * Toggle a view mode, going back to rich text if it is already active
+ */
+export function toggleViewMode(mode: Exclude<ViewMode, "rich">): void {
+	setViewMode(getViewMode() === mode ? "rich" : mode);
+}
+
+/**
+ * Initialize source mode and split view
+ */
+export function initSourceView(editor: Editor): void {
+	const view = createSourceView(editor);
+	activeSourceView = view;
+
+	const saved = viewModeStorage.load();
+	if (saved !== "rich") view.setMode(saved);
+
+	registerCommands(
+		{
+			id: "source-mode",
+			title: "Source Mode",
+			category: "View",
+			icon: icons.code(),
+			shortcut: "Cmd+/",
+			keywords: ["markdown", "raw"],
+			action: () => toggleViewMode("source"),
+		},
+		{
+			id: "split-view",
+			title: "Split View",
+			category: "View",
+			icon: icons.columns(),
+			shortcut: "Cmd+Shift+/",
+			keywords: ["markdown", "side by side"],
+			action: () => toggleViewMode("split"),
+		}
+	);
+}
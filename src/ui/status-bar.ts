@@ -0,0 +1,128 @@
+/**
+ * Status bar - document stats, cursor block type and save state
+ * @module ui/status-bar
+ */
+
+import type { Editor } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "prosemirror-model";
+import type { EditorFileState } from "../core/editor";
+import { getFileState, onFileStateChange } from "../core/editor";
+import { createElement } from "./components";
+
+const WORDS_PER_MINUTE = 200;
+
+type SaveStatus = "saved" | "unsaved" | "saving" | "failed";
+
+const saveStatusLabels: Record<SaveStatus, string> = {
+	saved: "Saved",
+	unsaved: "Unsaved",
+	saving: "Saving…",
+	failed: "Save failed",
+};
+
+/**
+ * Labels for the block containing the cursor, innermost match wins
+ */
+const blockLabels: Record<string, (node: ProseMirrorNode, parent: ProseMirrorNode) => string> = {
+	heading: (node) => `Heading ${node.attrs.level}`,
+	codeBlock: (node) => (node.attrs.language ? `Code (${node.attrs.language})` : "Code"),
+	tableCell: () => "Table",
+	tableHeader: () => "Table",
+	taskItem: () => "Task List",
+	listItem: (_node, parent) => (parent.type.name === "orderedList" ? "Ordered List" : "Bullet List"),
+	blockquote: () => "Quote",
+};
+
+/**
+ * Count words in a piece of text
+ */
+function countWords(text: string): number {
+	return text.match(/[\p{L}\p{N}][\p{L}\p{N}'’_-]*/gu)?.length ?? 0;
+}
+
+/**
+ * Describe the block containing the cursor
+ */
+function getBlockLabel(editor: Editor): string {
+	const { $from } = editor.state.selection;
+
+	for (let depth = $from.depth; depth > 0; depth--) {
+		const node = $from.node(depth);
+		const label = blockLabels[node.type.name];
+		if (label) return label(node, $from.node(depth - 1));
+	}
+
+	return "Paragraph";
+}
+
+/**
+ * Work out the save indicator state from the file state
+ * Documents that live only in browser storage have no indicator.
+ */
+function getSaveStatus(state: Readonly<EditorFileState>): SaveStatus | null {
+	if (!state.isEditingFile && !state.filePath) return null;
+	if (state.isSaving) return "saving";
+	if (state.saveError) return "failed";
+	return state.hasUnsavedChanges ? "unsaved" : "saved";
+}
+
+/**
+ * Initialize the status bar
+ * Visibility is controlled by the showStatusBar setting.
+ */
+export function initStatusBar(editor: Editor): void {
+	const bar = createElement("div", { className: "md-status-bar" });
+
+	const words = createElement("span", { className: "md-status-item" });
+	const characters = createElement("span", { className: "md-status-item" });
+	const readingTime = createElement("span", { className: "md-status-item" });
+	const selection = createElement("span", { className: "md-status-item md-status-selection" });
+	const blockType = createElement("span", { className: "md-status-item md-status-block" });
+	const save = createElement("span", { className: "md-status-item md-status-save" });
+
+	for (const item of [words, characters, readingTime, selection, blockType, save]) {
+		bar.appendChild(item);
+	}
+	document.body.appendChild(bar);
+
+	const updateStats = () => {
+		const { doc } = editor.state;
+		const wordCount = countWords(doc.textBetween(0, doc.content.size, "\n", " "));
+		const minutes = wordCount === 0 ? 0 : Math.max(1, Math.round(wordCount / WORDS_PER_MINUTE));
+
+		words.textContent = `${wordCount.toLocaleString()} ${wordCount === 1 ? "word" : "words"}`;
+		characters.textContent = `${doc.textContent.length.toLocaleString()} chars`;
+		readingTime.textContent = `${minutes} min read`;
+	};
+
+	const updateSelection = () => {
+		const { from, to, empty } = editor.state.selection;
+		const selected = empty ? 0 : countWords(editor.state.doc.textBetween(from, to, "\n", " "));
+
+		selection.textContent = selected > 0 ? `${selected.toLocaleString()} ${selected === 1 ? "word" : "words"} selected` : "";
+		selection.classList.toggle("hidden", selected === 0);
+		blockType.textContent = getBlockLabel(editor);
+	};
+
+	const updateSave = (state: Readonly<EditorFileState>) => {
+		const status = getSaveStatus(state);
+		save.classList.toggle("hidden", status === null);
+		save.dataset.status = status ?? "";
+		save.textContent = status ? saveStatusLabels[status] : "";
+		save.title = state.saveError ?? "";
+	};
+
+	// Counting words walks the whole document, so wait for a pause in typing
+	let statsTimeout: ReturnType<typeof setTimeout> | null = null;
+	editor.on("update", () => {
+		if (statsTimeout) clearTimeout(statsTimeout);
+		statsTimeout = setTimeout(updateStats, 150);
+	});
+	editor.on("selectionUpdate", updateSelection);
+	editor.on("update", updateSelection);
+	onFileStateChange(updateSave);
+
+	updateStats();
+	updateSelection();
+	updateSave(getFileState());
+}
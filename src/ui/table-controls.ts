@@ -0,0 +1,178 @@
+/**
+ * Table controls - contextual bar shown while the cursor is in a table
+ * @module ui/table-controls
+ */
+
+import type { Editor } from "@tiptap/core";
+import type { ColumnAlignment } from "../core/table";
+import { createElement, createButton } from "./components";
+import { icons } from "./icons";
+
+interface TableControl {
+	id: string;
+	label: string;
+	title: string;
+	action: (editor: Editor) => void;
+	/** Controls with the same group are rendered together */
+	group: "row" | "column" | "align" | "table";
+	className?: string;
+}
+
+const alignControl = (align: ColumnAlignment, label: string, title: string): TableControl => ({
+	id: `align-${align}`,
+	label,
+	title,
+	group: "align",
+	action: (editor) => editor.chain().focus().setColumnAlignment(align).run(),
+});
+
+/**
+ * Table control definitions
+ */
+const tableControls: TableControl[] = [
+	{
+		id: "row-above",
+		label: "+ Row ↑",
+		title: "Add Row Above",
+		group: "row",
+		action: (editor) => editor.chain().focus().addRowBefore().run(),
+	},
+	{
+		id: "row-below",
+		label: "+ Row ↓",
+		title: "Add Row Below",
+		group: "row",
+		action: (editor) => editor.chain().focus().addRowAfter().run(),
+	},
+	{
+		id: "row-delete",
+		label: "− Row",
+		title: "Delete Row",
+		group: "row",
+		action: (editor) => editor.chain().focus().deleteRow().run(),
+	},
+	{
+		id: "col-left",
+		label: "+ Col ←",
+		title: "Add Column Left",
+		group: "column",
+		action: (editor) => editor.chain().focus().addColumnBefore().run(),
+	},
+	{
+		id: "col-right",
+		label: "+ Col →",
+		title: "Add Column Right",
+		group: "column",
+		action: (editor) => editor.chain().focus().addColumnAfter().run(),
+	},
+	{
+		id: "col-delete",
+		label: "− Col",
+		title: "Delete Column",
+		group: "column",
+		action: (editor) => editor.chain().focus().deleteColumn().run(),
+	},
+	alignControl("left", "Left", "Align Column Left"),
+	alignControl("center", "Center", "Align Column Center"),
+	alignControl("right", "Right", "Align Column Right"),
+	{
+		id: "header-row",
+		label: "Header",
+		title: "Toggle Header Row",
+		group: "table",
+		action: (editor) => editor.chain().focus().toggleHeaderRow().run(),
+	},
+	{
+		id: "table-delete",
+		label: icons.trash({ size: 16 }),
+		title: "Delete Table",
+		group: "table",
+		className: "md-danger",
+		action: (editor) => editor.chain().focus().deleteTable().run(),
+	},
+];
+
+/**
+ * Find the DOM element of the table containing the selection
+ */
+function getActiveTableElement(editor: Editor): HTMLTableElement | null {
+	const { $from } = editor.state.selection;
+
+	for (let depth = $from.depth; depth > 0; depth--) {
+		if ($from.node(depth).type.name !== "table") continue;
+
+		const dom = editor.view.nodeDOM($from.before(depth));
+		if (!(dom instanceof HTMLElement)) return null;
+
+		// The table node view wraps the <table> in a scrolling container
+		return dom instanceof HTMLTableElement ? dom : dom.querySelector("table");
+	}
+
+	return null;
+}
+
+/**
+ * Create the controls bar
+ */
+function createTableControlsBar(editor: Editor): HTMLDivElement {
+	const bar = createElement("div", { className: "md-table-controls hidden" });
+
+	let currentGroup: TableControl["group"] | null = null;
+
+	for (const control of tableControls) {
+		if (currentGroup && control.group !== currentGroup) {
+			bar.appendChild(createElement("span", { className: "md-toolbar-separator" }));
+		}
+		currentGroup = control.group;
+
+		const btn = createButton({
+			className: `md-table-controls-btn${control.className ? ` ${control.className}` : ""}`,
+			innerHTML: control.label,
+			title: control.title,
+			onClick: (e) => {
+				e.preventDefault();
+				control.action(editor);
+			},
+		});
+
+		// Keep the editor selection while clicking
+		btn.addEventListener("mousedown", (e) => e.preventDefault());
+		bar.appendChild(btn);
+	}
+
+	return bar;
+}
+
+/**
+ * Initialize table controls
+ */
+export function initTableControls(editor: Editor): void {
+	const bar = createTableControlsBar(editor);
+	document.body.appendChild(bar);
+
+	const update = () => {
+		const table = editor.isEditable ? getActiveTableElement(editor) : null;
+
+		if (!table) {
+			bar.classList.add("hidden");
+			return;
+		}
+
+		const rect = table.getBoundingClientRect();
+		bar.classList.remove("hidden");
+
+		const top = rect.top + window.scrollY - bar.offsetHeight - 8;
+		bar.style.top = `${Math.max(window.scrollY + 8, top)}px`;
+		bar.style.left = `${rect.left + window.scrollX}px`;
+	};
+
+	editor.on("selectionUpdate", update);
+	editor.on("update", update);
+	editor.on("blur", ({ event }) => {
+		// Clicking a control should not hide the bar
+		if (event.relatedTarget instanceof Node && bar.contains(event.relatedTarget)) return;
+		bar.classList.add("hidden");
+	});
+	editor.on("focus", update);
+	window.addEventListener("resize", update);
+}
@@ -5,7 +5,8 @@
 
 import type { CustomTheme, ThemeTokens, ThemeMode } from "../types";
 import { getThemeTokens } from "../config";
-import { STORAGE_KEYS } from "../config/defaults";
+import { customThemeStorage } from "../core/storage";
+import { setDiagramTheme } from "../core/mermaid";
 import {
 	createElement,
 	createColorGroup,
@@ -19,20 +20,11 @@ import {
 // ============================================================================
 
 function loadCustomTheme(): CustomTheme | null {
-	try {
-		const data = localStorage.getItem(STORAGE_KEYS.customTheme);
-		return data ? JSON.parse(data) : null;
-	} catch {
-		return null;
-	}
+	return customThemeStorage.load();
 }
 
 function saveCustomTheme(theme: CustomTheme | null): void {
-	if (theme) {
-		localStorage.setItem(STORAGE_KEYS.customTheme, JSON.stringify(theme));
-	} else {
-		localStorage.removeItem(STORAGE_KEYS.customTheme);
-	}
+	customThemeStorage.save(theme);
 }
 
 // ============================================================================
@@ -213,6 +205,7 @@ export function createThemeCustomizer(options: ThemeCustomizerOptions): HTMLElem
 		root.style.setProperty("--border-secondary", tokens.borderSecondary);
 		root.style.setProperty("--border-hr", tokens.borderHr);
 		root.style.setProperty("--list-marker", tokens.listMarker);
+		setDiagramTheme(tokens);
 	}
 
 	// Build initial color groups
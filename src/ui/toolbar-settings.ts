@@ -0,0 +1,214 @@
+/**
+ * Toolbar view for the settings panel - reorder, hide and add buttons
+ * @module ui/toolbar-settings
+ */
+
+import type { ToolbarButton, ToolbarLayout, ToolbarLayoutItem, ToolbarPosition } from "../types";
+import { getDefaultToolbarLayout, getToolbarButtons, getToolbarLayout, setToolbarLayout } from "./toolbar";
+import { icons } from "./icons";
+import {
+	createElement,
+	createButton,
+	createSection,
+	createRow,
+	createSelect,
+	createToggleGroup,
+	createBackButton,
+} from "./components";
+
+/**
+ * Move an item to a new index, counted before the item is taken out
+ */
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+	const moved = [...items];
+	const [item] = moved.splice(from, 1);
+	moved.splice(to > from ? to - 1 : to, 0, item!);
+	return moved;
+}
+
+/**
+ * Create the toolbar view
+ */
+export function createToolbarSettingsView(options: { onBack: () => void }): HTMLDivElement {
+	const view = createElement("div", { className: "md-toolbar-settings-view" });
+	view.appendChild(createBackButton({ label: "Toolbar", onClick: options.onBack }));
+
+	const defaults = getDefaultToolbarLayout();
+	if (!defaults) {
+		const section = createSection();
+		section.appendChild(createElement("div", { className: "md-toolbar-layout-empty", textContent: "The toolbar is not enabled" }));
+		view.appendChild(section);
+		return view;
+	}
+
+	const buttons = new Map(getToolbarButtons().map((button) => [button.id, button]));
+	const defaultIds = new Set(defaults.items.map((item) => item.id));
+
+	const positionSection = createSection();
+	const list = createElement("div", { className: "md-toolbar-layout-list" });
+	const listSection = createSection();
+	listSection.appendChild(list);
+	const addSection = createSection();
+
+	/** Index of the row being dragged */
+	let dragIndex: number | null = null;
+
+	const getLayout = (): ToolbarLayout => getToolbarLayout() ?? defaults;
+
+	const update = (changes: Partial<ToolbarLayout>) => {
+		setToolbarLayout({ ...getLayout(), ...changes });
+		render();
+	};
+
+	const updateItems = (items: ToolbarLayoutItem[]) => update({ items });
+
+	const createLayoutRow = (item: ToolbarLayoutItem, index: number, items: ToolbarLayoutItem[]): HTMLDivElement => {
+		const button: ToolbarButton | undefined = buttons.get(item.id);
+		const row = createElement("div", {
+			className: `md-toolbar-layout-row${button ? "" : " separator"}${item.hidden ? " is-hidden" : ""}`,
+			attributes: { draggable: "true", tabindex: "0", title: "Drag or use Alt+Arrow keys to move" },
+		});
+
+		row.appendChild(createElement("span", { className: "md-toolbar-layout-grip", innerHTML: icons.grip() }));
+		row.appendChild(createElement("span", { className: "md-toolbar-layout-icon", innerHTML: button?.icon ?? "" }));
+		row.appendChild(
+			createElement("span", { className: "md-toolbar-layout-label", textContent: button?.title ?? "Separator" })
+		);
+
+		const visible = createElement("input", {
+			attributes: { type: "checkbox", "aria-label": `Show ${button?.title ?? "separator"}` },
+		});
+		visible.checked = !item.hidden;
+		visible.addEventListener("change", () => {
+			updateItems(items.map((other, i) => (i === index ? { ...other, hidden: !visible.checked } : other)));
+		});
+		row.appendChild(visible);
+
+		// Default items can only be hidden, added ones can be removed again
+		if (!defaultIds.has(item.id)) {
+			row.appendChild(
+				createButton({
+					className: "md-toolbar-layout-remove",
+					innerHTML: icons.close(),
+					title: "Remove",
+					onClick: () => updateItems(items.filter((_, i) => i !== index)),
+				})
+			);
+		}
+
+		row.addEventListener("keydown", (e) => {
+			if (!e.altKey || e.target !== row) return;
+			if (e.key === "ArrowUp" && index > 0) {
+				e.preventDefault();
+				updateItems(moveItem(items, index, index - 1));
+				(list.children[index - 1] as HTMLElement | undefined)?.focus();
+			} else if (e.key === "ArrowDown" && index < items.length - 1) {
+				e.preventDefault();
+				updateItems(moveItem(items, index, index + 2));
+				(list.children[index + 1] as HTMLElement | undefined)?.focus();
+			}
+		});
+
+		row.addEventListener("dragstart", (e) => {
+			dragIndex = index;
+			e.dataTransfer?.setData("text/plain", item.id);
+			if (e.dataTransfer) e.dataTransfer.effectAllowed = "move";
+			row.classList.add("dragging");
+		});
+
+		row.addEventListener("dragend", () => {
+			dragIndex = null;
+			render();
+		});
+
+		row.addEventListener("dragover", (e) => {
+			if (dragIndex === null) return;
+			e.preventDefault();
+			const rect = row.getBoundingClientRect();
+			const after = e.clientY > rect.top + rect.height / 2;
+			row.classList.toggle("drop-before", !after);
+			row.classList.toggle("drop-after", after);
+		});
+
+		row.addEventListener("dragleave", () => row.classList.remove("drop-before", "drop-after"));
+
+		row.addEventListener("drop", (e) => {
+			if (dragIndex === null) return;
+			e.preventDefault();
+			const after = row.classList.contains("drop-after");
+			const from = dragIndex;
+			dragIndex = null;
+			updateItems(moveItem(items, from, after ? index + 1 : index));
+		});
+
+		return row;
+	};
+
+	const render = () => {
+		const layout = getLayout();
+
+		positionSection.innerHTML = "";
+		positionSection.appendChild(
+			createRow(
+				"Position",
+				createToggleGroup<ToolbarPosition>({
+					values: [
+						{ label: "Top", value: "top" },
+						{ label: "Bottom", value: "bottom" },
+						{ label: "Floating", value: "floating" },
+					],
+					selected: layout.position,
+					onChange: (position) => update({ position }),
+				})
+			)
+		);
+
+		list.innerHTML = "";
+		layout.items.forEach((item, index) => list.appendChild(createLayoutRow(item, index, layout.items)));
+
+		// Buttons not on the toolbar yet, and separators which can be added any number of times
+		const placed = new Set(layout.items.map((item) => item.id));
+		addSection.innerHTML = "";
+		addSection.appendChild(
+			createRow(
+				"Add",
+				createSelect<string>({
+					values: [
+						{ label: "Choose a button…", value: "" },
+						...Array.from(buttons.values())
+							.filter((button) => !placed.has(button.id))
+							.map((button) => ({ label: button.title, value: button.id })),
+						{ label: "Separator", value: "sep-" },
+					],
+					selected: "",
+					onChange: (value) => {
+						if (!value) return;
+						const id = value === "sep-" ? `sep-${Date.now().toString(36)}` : value;
+						updateItems([...layout.items, { id, hidden: false }]);
+					},
+				})
+			)
+		);
+	};
+
+	const resetBtn = createElement("button", {
+		className: "md-settings-action-btn",
+		textContent: "Reset Toolbar",
+		attributes: { type: "button" },
+	});
+	resetBtn.addEventListener("click", () => {
+		setToolbarLayout(null);
+		render();
+	});
+
+	const actions = createSection();
+	actions.appendChild(resetBtn);
+
+	view.appendChild(positionSection);
+	view.appendChild(listSection);
+	view.appendChild(addSection);
+	view.appendChild(actions);
+
+	render();
+	return view;
+}
@@ -4,10 +4,14 @@
  */
 
 import type { Editor } from "@tiptap/core";
-import type { ToolbarItem, ToolbarButton } from "../types";
+import type { ToolbarItem, ToolbarButton, ToolbarLayout } from "../types";
 import { toolbarStorage } from "../core/storage";
+import { pickImageFiles } from "../core/images";
+import { registerCommands } from "../core/commands";
+import { onKeybindingsChange, withKeybinding } from "../core/keybindings";
 import { icons, textIcons } from "./icons";
 import { createElement, createButton } from "./components";
+import { openLinkEditor } from "./link-popover";
 
 /**
  * Default toolbar button configuration
@@ -63,6 +67,14 @@ export const defaultToolbarItems: ToolbarItem[] = [
 		action: (editor) => editor.chain().focus().toggleCode().run(),
 		isActive: (editor) => editor.isActive("code"),
 	},
+	{
+		id: "link",
+		icon: icons.link(),
+		title: "Link",
+		shortcut: "Cmd+K",
+		action: (editor) => openLinkEditor(editor),
+		isActive: (editor) => editor.isActive("link"),
+	},
 	{ id: "sep-2", type: "separator" },
 	{
 		id: "bulletList",
@@ -80,6 +92,14 @@ export const defaultToolbarItems: ToolbarItem[] = [
 		action: (editor) => editor.chain().focus().toggleOrderedList().run(),
 		isActive: (editor) => editor.isActive("orderedList"),
 	},
+	{
+		id: "taskList",
+		icon: icons.taskList(),
+		title: "Task List",
+		shortcut: "Cmd+Shift+9",
+		action: (editor) => editor.chain().focus().toggleTaskList().run(),
+		isActive: (editor) => editor.isActive("taskList"),
+	},
 	{ id: "sep-3", type: "separator" },
 	{
 		id: "blockquote",
@@ -103,8 +123,109 @@ export const defaultToolbarItems: ToolbarItem[] = [
 		title: "Horizontal Rule",
 		action: (editor) => editor.chain().focus().setHorizontalRule().run(),
 	},
+	{
+		id: "table",
+		icon: icons.table(),
+		title: "Insert Table",
+		action: (editor) => editor.chain().focus().insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run(),
+		isActive: (editor) => editor.isActive("table"),
+	},
+];
+
+/**
+ * Extra buttons that can be added to the toolbar from the settings panel
+ * Insert buttons share their ids with the slash menu commands.
+ */
+export const toolbarItemCatalog: ToolbarButton[] = [
+	{
+		id: "paragraph",
+		icon: textIcons.paragraph,
+		title: "Normal Text",
+		shortcut: "Cmd+Alt+0",
+		action: (editor) => editor.chain().focus().setParagraph().run(),
+		isActive: (editor) => editor.isActive("paragraph"),
+	},
+	{
+		id: "h4",
+		icon: textIcons.h4,
+		title: "Heading 4",
+		shortcut: "Cmd+Alt+4",
+		action: (editor) => editor.chain().focus().toggleHeading({ level: 4 }).run(),
+		isActive: (editor) => editor.isActive("heading", { level: 4 }),
+	},
+	{
+		id: "strike",
+		icon: icons.strike(),
+		title: "Strikethrough",
+		action: (editor) => editor.chain().focus().toggleStrike().run(),
+		isActive: (editor) => editor.isActive("strike"),
+	},
+	{
+		id: "clearFormatting",
+		icon: icons.clearFormatting(),
+		title: "Clear Formatting",
+		action: (editor) => editor.chain().focus().unsetAllMarks().clearNodes().run(),
+	},
+	{
+		id: "undo",
+		icon: icons.undo(),
+		title: "Undo",
+		shortcut: "Cmd+Z",
+		action: (editor) => editor.chain().focus().undo().run(),
+	},
+	{
+		id: "redo",
+		icon: icons.redo(),
+		title: "Redo",
+		shortcut: "Cmd+Shift+Z",
+		action: (editor) => editor.chain().focus().redo().run(),
+	},
+	{
+		id: "insert-image",
+		icon: icons.image(),
+		title: "Image",
+		action: (editor) => {
+			void pickImageFiles().then((files) => editor.chain().focus().insertImages(files).run());
+		},
+	},
+	{
+		id: "insert-inlineMath",
+		icon: textIcons.math,
+		title: "Inline Math",
+		action: (editor) => editor.chain().focus().insertInlineMath().run(),
+	},
+	{
+		id: "insert-blockMath",
+		icon: textIcons.math,
+		title: "Math Block",
+		action: (editor) => editor.chain().focus().insertBlockMath().run(),
+	},
+	{
+		id: "insert-footnote",
+		icon: textIcons.footnote,
+		title: "Footnote",
+		action: (editor) => editor.chain().focus().insertFootnote().run(),
+	},
+	{
+		id: "insert-frontMatter",
+		icon: textIcons.frontMatter,
+		title: "Front Matter",
+		action: (editor) => editor.chain().focus().insertFrontMatter().run(),
+	},
 ];
 
+/** Keeps the floating toolbar this far inside the window */
+const FLOATING_MARGIN = 8;
+
+/** The toolbar created by initToolbar, customized from the settings panel */
+let activeToolbar: {
+	buttons: ToolbarButton[];
+	defaults: ToolbarLayout;
+	getLayout: () => ToolbarLayout;
+	setLayout: (layout: ToolbarLayout | null) => void;
+	setVisible: (visible: boolean) => void;
+} | null = null;
+
 /**
  * Check if item is a separator
  */
@@ -112,6 +233,73 @@ function isSeparator(item: ToolbarItem): item is { id: string; type: "separator"
 	return "type" in item && item.type === "separator";
 }
 
+/**
+ * Get the command category a toolbar button is listed under
+ */
+function getCommandCategory(id: string): string {
+	if (id.startsWith("insert-")) return "Insert";
+	if (id === "undo" || id === "redo") return "Edit";
+	return "Format";
+}
+
+/**
+ * Check whether a layout id stands for a separator
+ */
+function isSeparatorId(id: string, buttons: Map<string, ToolbarButton>): boolean {
+	return id.startsWith("sep-") && !buttons.has(id);
+}
+
+/**
+ * Get the layout that shows every item in order at the top
+ */
+function getDefaultLayout(items: ToolbarItem[]): ToolbarLayout {
+	return {
+		items: items.map((item) => ({ id: item.id, hidden: false })),
+		position: "top",
+		floatingOffset: null,
+	};
+}
+
+/**
+ * Bring a saved layout up to date with the available buttons
+ * Buttons that no longer exist are dropped and new default items are added at the end.
+ */
+function mergeLayout(
+	saved: ToolbarLayout,
+	defaults: ToolbarLayout,
+	buttons: Map<string, ToolbarButton>
+): ToolbarLayout {
+	const items = saved.items.filter((item) => buttons.has(item.id) || isSeparatorId(item.id, buttons));
+	const ids = new Set(items.map((item) => item.id));
+
+	return {
+		...defaults,
+		...saved,
+		items: [...items, ...defaults.items.filter((item) => !ids.has(item.id))],
+	};
+}
+
+/**
+ * Get the items a layout shows, without separators at the ends or next to each other
+ */
+function getVisibleItems(layout: ToolbarLayout, buttons: Map<string, ToolbarButton>): ToolbarItem[] {
+	const visible: ToolbarItem[] = [];
+
+	for (const { id, hidden } of layout.items) {
+		if (hidden) continue;
+
+		const button = buttons.get(id);
+		if (button) {
+			visible.push(button);
+		} else if (isSeparatorId(id, buttons) && visible.length > 0 && !isSeparator(visible[visible.length - 1]!)) {
+			visible.push({ id, type: "separator" });
+		}
+	}
+
+	if (visible.length > 0 && isSeparator(visible[visible.length - 1]!)) visible.pop();
+	return visible;
+}
+
 /**
  * Create the toolbar toggle button
  */
@@ -127,12 +315,10 @@ function createToolbarToggle(): HTMLButtonElement {
  * Create a toolbar button element
  */
 function createToolbarButton(item: ToolbarButton, editor: Editor): HTMLButtonElement {
-	const title = item.shortcut ? `${item.title} (${item.shortcut})` : item.title;
-
 	return createButton({
 		className: "md-toolbar-btn",
 		innerHTML: item.icon,
-		title,
+		title: withKeybinding(item.title, item.id),
 		onClick: (e) => {
 			e.preventDefault();
 			item.action(editor);
@@ -141,27 +327,67 @@ function createToolbarButton(item: ToolbarButton, editor: Editor): HTMLButtonEle
 }
 
 /**
- * Create the toolbar container with all buttons
+ * Create the handle the floating toolbar is dragged by
+ */
+function createFloatingGrip(toolbar: HTMLElement, onMoved: (offset: { x: number; y: number; }) => void): HTMLSpanElement {
+	const grip = createElement("span", {
+		className: "md-toolbar-grip",
+		innerHTML: icons.grip(),
+		attributes: { title: "Drag to move" },
+	});
+
+	grip.addEventListener("pointerdown", (e) => {
+		e.preventDefault();
+		grip.setPointerCapture(e.pointerId);
+
+		const rect = toolbar.getBoundingClientRect();
+		const grabX = e.clientX - rect.left;
+		const grabY = e.clientY - rect.top;
+		let offset = { x: rect.left, y: rect.top };
+
+		const onMove = (move: PointerEvent) => {
+			offset = clampFloatingOffset(toolbar, { x: move.clientX - grabX, y: move.clientY - grabY });
+			toolbar.style.left = `${offset.x}px`;
+			toolbar.style.top = `${offset.y}px`;
+		};
+
+		const onUp = () => {
+			grip.removeEventListener("pointermove", onMove);
+			grip.removeEventListener("pointerup", onUp);
+			onMoved(offset);
+		};
+
+		grip.addEventListener("pointermove", onMove);
+		grip.addEventListener("pointerup", onUp);
+	});
+
+	return grip;
+}
+
+/**
+ * Keep the floating toolbar inside the window
+ */
+function clampFloatingOffset(toolbar: HTMLElement, offset: { x: number; y: number; }): { x: number; y: number; } {
+	const maxX = window.innerWidth - toolbar.offsetWidth - FLOATING_MARGIN;
+	const maxY = window.innerHeight - toolbar.offsetHeight - FLOATING_MARGIN;
+	return {
+		x: Math.round(Math.max(FLOATING_MARGIN, Math.min(maxX, offset.x))),
+		y: Math.round(Math.max(FLOATING_MARGIN, Math.min(maxY, offset.y))),
+	};
+}
+
+/**
+ * Create the toolbar container, filled from a layout by `render`
  */
 function createToolbarContainer(
 	editor: Editor,
-	items: ToolbarItem[] = defaultToolbarItems
-): HTMLDivElement {
+	buttons: Map<string, ToolbarButton>,
+	onFloatingMoved: (offset: { x: number; y: number; }) => void
+): { toolbar: HTMLDivElement; render: (layout: ToolbarLayout) => void; } {
 	const toolbar = createElement("div", { className: "md-toolbar hidden" });
 
 	const buttonElements: Map<string, HTMLButtonElement> = new Map();
-
-	for (const item of items) {
-		if (isSeparator(item)) {
-			const separator = createElement("span", { className: "md-toolbar-separator" });
-			toolbar.appendChild(separator);
-			continue;
-		}
-
-		const button = createToolbarButton(item, editor);
-		buttonElements.set(item.id, button);
-		toolbar.appendChild(button);
-	}
+	let items: ToolbarItem[] = [];
 
 	// Update active states on editor changes
 	const updateActiveStates = () => {
@@ -175,27 +401,164 @@ function createToolbarContainer(
 		}
 	};
 
+	const render = (layout: ToolbarLayout) => {
+		items = getVisibleItems(layout, buttons);
+		buttonElements.clear();
+		toolbar.innerHTML = "";
+
+		if (layout.position === "floating") {
+			toolbar.appendChild(createFloatingGrip(toolbar, onFloatingMoved));
+		}
+
+		for (const item of items) {
+			if (isSeparator(item)) {
+				const separator = createElement("span", { className: "md-toolbar-separator" });
+				toolbar.appendChild(separator);
+				continue;
+			}
+
+			const button = createToolbarButton(item, editor);
+			buttonElements.set(item.id, button);
+			toolbar.appendChild(button);
+		}
+
+		toolbar.classList.toggle("bottom", layout.position === "bottom");
+		toolbar.classList.toggle("floating", layout.position === "floating");
+
+		// The floating toolbar goes back to its default place without an offset
+		const offset = layout.position === "floating" ? layout.floatingOffset : null;
+		toolbar.style.left = offset ? `${offset.x}px` : "";
+		toolbar.style.top = offset ? `${offset.y}px` : "";
+		toolbar.style.right = offset ? "auto" : "";
+
+		updateActiveStates();
+	};
+
 	editor.on("selectionUpdate", updateActiveStates);
 	editor.on("update", updateActiveStates);
 
-	return toolbar;
+	onKeybindingsChange(() => {
+		for (const item of items) {
+			if (isSeparator(item)) continue;
+
+			const button = buttonElements.get(item.id);
+			if (button) button.title = withKeybinding(item.title, item.id);
+		}
+	});
+
+	return { toolbar, render };
 }
 
 export interface ToolbarOptions {
 	/** Custom toolbar items (defaults to defaultToolbarItems) */
 	items?: ToolbarItem[];
+	/** Extra buttons that can be added from the settings panel (defaults to toolbarItemCatalog) */
+	catalog?: ToolbarButton[];
 	/** Whether toolbar starts visible (defaults to saved state) */
 	initialVisible?: boolean;
 }
 
+/**
+ * Get every button that can be placed on the toolbar
+ */
+export function getToolbarButtons(): ToolbarButton[] {
+	return activeToolbar?.buttons ?? [];
+}
+
+/**
+ * Get the toolbar's default layout, or null when there is no toolbar
+ */
+export function getDefaultToolbarLayout(): ToolbarLayout | null {
+	return activeToolbar?.defaults ?? null;
+}
+
+/**
+ * Get the current toolbar layout, or null when there is no toolbar
+ */
+export function getToolbarLayout(): ToolbarLayout | null {
+	return activeToolbar?.getLayout() ?? null;
+}
+
+/**
+ * Rearrange the toolbar and remember the layout, or go back to the default with null
+ * Without a toolbar the layout is only stored.
+ */
+export function setToolbarLayout(layout: ToolbarLayout | null): void {
+	if (activeToolbar) {
+		activeToolbar.setLayout(layout);
+	} else {
+		toolbarStorage.saveLayout(layout);
+	}
+}
+
+/**
+ * Show or hide the toolbar and remember it
+ */
+export function setToolbarVisible(visible: boolean): void {
+	if (activeToolbar) {
+		activeToolbar.setVisible(visible);
+	} else {
+		toolbarStorage.setVisible(visible);
+	}
+}
+
 /**
  * Initialize the toolbar UI
  */
 export function initToolbar(editor: Editor, options: ToolbarOptions = {}): void {
-	const { items = defaultToolbarItems, initialVisible } = options;
+	const { items = defaultToolbarItems, catalog = toolbarItemCatalog, initialVisible } = options;
+
+	const buttons = new Map<string, ToolbarButton>();
+	for (const item of [...items, ...catalog]) {
+		if (!isSeparator(item) && !buttons.has(item.id)) buttons.set(item.id, item);
+	}
+
+	const defaults = getDefaultLayout(items);
+	const saved = toolbarStorage.loadLayout();
+	let layout = saved ? mergeLayout(saved, defaults, buttons) : defaults;
 
 	const toggle = createToolbarToggle();
-	const toolbar = createToolbarContainer(editor, items);
+
+	const setVisible = (visible: boolean) => {
+		toolbar.classList.toggle("hidden", !visible);
+		toggle.classList.toggle("active", visible);
+		toolbarStorage.setVisible(visible);
+	};
+
+	const toggleToolbar = () => setVisible(toolbar.classList.contains("hidden"));
+
+	// Registered first so the buttons can show their shortcuts
+	registerCommands(
+		...Array.from(buttons.values()).map((item) => ({
+			id: item.id,
+			title: item.title,
+			category: getCommandCategory(item.id),
+			icon: item.icon,
+			shortcut: item.shortcut,
+			editorOnly: true,
+			action: item.action,
+		})),
+		{
+			id: "toggle-toolbar",
+			title: "Toggle Toolbar",
+			category: "View",
+			icon: icons.menu(),
+			action: toggleToolbar,
+		}
+	);
+
+	const setLayout = (updated: ToolbarLayout | null) => {
+		layout = updated ?? defaults;
+		toolbarStorage.saveLayout(updated);
+		render(layout);
+	};
+
+	const { toolbar, render } = createToolbarContainer(editor, buttons, (floatingOffset) =>
+		setLayout({ ...layout, floatingOffset })
+	);
+	render(layout);
+
+	activeToolbar = { buttons: Array.from(buttons.values()), defaults, getLayout: () => layout, setLayout, setVisible };
 
 	// Restore saved state or use provided initial state
 	const isVisible = initialVisible ?? toolbarStorage.isVisible();
@@ -208,11 +571,7 @@ export function initToolbar(editor: Editor, options: ToolbarOptions = {}): void
 	document.body.appendChild(toggle);
 	document.body.appendChild(toolbar);
 
-	toggle.addEventListener("click", () => {
-		const nowHidden = toolbar.classList.toggle("hidden");
-		toggle.classList.toggle("active", !nowHidden);
-		toolbarStorage.setVisible(!nowHidden);
-	});
+	toggle.addEventListener("click", toggleToolbar);
 }
 
 /**
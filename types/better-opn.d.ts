@@ -0,0 +1,6 @@
+declare module "better-opn" {
+	/**
+	 * Open a URL in the user's browser, reusing an existing tab where possible
+	 */
+	export default function open(target: string, options?: Record<string, unknown>): unknown;
+}